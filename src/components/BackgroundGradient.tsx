@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+
+interface BackgroundGradientProps {
+  preview: string;
+  inlierRatio: number;
+  // 采样铺开的方向，未铺开的方向按常数拟合
+  axes: { x: boolean; y: boolean };
+}
+
+// 展示拟合得到的渐变背景及参与拟合的采样比例
+const BackgroundGradient: React.FC<BackgroundGradientProps> = ({ preview, inlierRatio, axes }) => {
+  const flatAxes = [!axes.x && '横向', !axes.y && '纵向'].filter(Boolean);
+
+  return (
+    <Card className="glass-effect p-6">
+      <h3 className="text-lg font-semibold mb-4">拟合的渐变背景</h3>
+      <div className="flex items-center gap-4">
+        <img
+          src={preview}
+          alt="渐变背景"
+          className="w-40 rounded-md border shadow-sm"
+        />
+        <p className="text-sm text-muted-foreground">
+          使用了 {(inlierRatio * 100).toFixed(1)}% 的边缘采样，其余被视为接触边缘的主体
+        </p>
+      </div>
+      {flatAxes.length > 0 && (
+        <div className="mt-3 flex items-start gap-2 text-sm text-amber-600">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <p>
+            采样没有在{flatAxes.join('和')}铺开，该方向按纯色处理
+            {flatAxes.length === 2 ? '，拟合退化为单一背景色' : ''}；
+            如需完整渐变，请在"背景采样"中勾选相对的两条边或绘制分散的采样区域
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default BackgroundGradient;
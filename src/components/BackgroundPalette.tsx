@@ -0,0 +1,140 @@
+import React from 'react';
+import { Pipette, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { MetricProfile } from '@/lib/matting/color';
+import { PaletteCluster, PaletteEntry } from '@/lib/matting/palette';
+
+interface BackgroundPaletteProps {
+  entries: PaletteEntry[];
+  // 锁定后重新运行不再自动检测，直接使用此列表
+  locked: boolean;
+  onLockedChange: (locked: boolean) => void;
+  // 任何编辑都会锁定列表
+  onEntriesChange: (entries: PaletteEntry[]) => void;
+  eyedropperActive: boolean;
+  onEyedropperChange: (active: boolean) => void;
+  // 全局外侧容差，未单独设置容差的颜色跟随该值
+  globalTolerance: number;
+  profile: MetricProfile;
+}
+
+const toHex = ({ r, g, b }: PaletteCluster) =>
+  '#' + [r, g, b].map((value) => value.toString(16).padStart(2, '0')).join('');
+
+// 颜色的来源与占比
+const describeEntry = (entry: PaletteEntry) => {
+  if (entry.source === 'eyedropper') return '吸管添加';
+  const origin = entry.source === 'histogram'
+    ? '直方图峰值'
+    : entry.sides > 0 ? `${entry.sides} 条边` : '自定义区域';
+  return `占比 ${(entry.weight * 100).toFixed(1)}% · ${origin}`;
+};
+
+// 背景色列表：展示自动检测的聚类，可用吸管添加、删除、忽略颜色，并为每种颜色单独设置容差
+const BackgroundPalette: React.FC<BackgroundPaletteProps> = ({
+  entries,
+  locked,
+  onLockedChange,
+  onEntriesChange,
+  eyedropperActive,
+  onEyedropperChange,
+  globalTolerance,
+  profile
+}) => {
+  const updateEntry = (id: number, patch: Partial<PaletteEntry>) => {
+    onEntriesChange(entries.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)));
+  };
+
+  return (
+    <Card className="glass-effect p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold">背景色</h3>
+        <div className="flex items-center gap-4">
+          <Button
+            variant={eyedropperActive ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onEyedropperChange(!eyedropperActive)}
+          >
+            <Pipette className="w-4 h-4 mr-1" />
+            吸管
+          </Button>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="paletteLocked" className="text-sm">锁定</Label>
+            <Switch id="paletteLocked" checked={locked} onCheckedChange={onLockedChange} />
+          </div>
+        </div>
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">运行后显示自动检测到的背景色，也可以用吸管在原图上点选添加</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {entries.map((entry) => (
+            <div key={entry.id} className={`space-y-2 ${entry.rejected ? 'opacity-50' : ''}`}>
+              <div className="flex items-center gap-3">
+                <div
+                  className="w-10 h-10 rounded-md border shadow-sm"
+                  style={{ backgroundColor: toHex(entry) }}
+                />
+                <div className="text-sm flex-1">
+                  <div className="font-mono">{toHex(entry)}</div>
+                  <div className="text-muted-foreground">
+                    {describeEntry(entry)}
+                  </div>
+                </div>
+                {entry.rejected && <Badge variant="outline">疑似主体，已忽略</Badge>}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateEntry(entry.id, { rejected: !entry.rejected })}
+                >
+                  {entry.rejected ? '启用' : '忽略'}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onEntriesChange(entries.filter((other) => other.id !== entry.id))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              {!entry.rejected && (
+                <div className="flex items-center gap-3">
+                  <Label className="text-xs whitespace-nowrap w-28">
+                    容差: {entry.tolerance ?? globalTolerance}{entry.tolerance === null ? '（全局）' : ''}
+                  </Label>
+                  <Slider
+                    min={profile.min}
+                    max={profile.max}
+                    step={profile.step}
+                    value={[entry.tolerance ?? globalTolerance]}
+                    onValueChange={(value) => updateEntry(entry.id, { tolerance: value[0] })}
+                    className="flex-1"
+                  />
+                  {entry.tolerance !== null && (
+                    <Button variant="ghost" size="sm" onClick={() => updateEntry(entry.id, { tolerance: null })}>
+                      重置
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground mt-4">
+        {eyedropperActive
+          ? '在原图上点击要去除的背景颜色，可连续点选'
+          : locked
+            ? '已锁定：重新运行时直接使用此列表，不再自动检测'
+            : '未锁定：每次运行都会重新检测；编辑任一颜色后自动锁定'}
+      </p>
+    </Card>
+  );
+};
+
+export default BackgroundPalette;
@@ -1,30 +1,494 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { Upload, Download, RotateCcw, Zap } from 'lucide-react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Upload, Download, RotateCcw, Zap, ImagePlus, Trash2, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import BackgroundPalette from '@/components/BackgroundPalette';
+import BackgroundGradient from '@/components/BackgroundGradient';
+import GrabCutOverlay, { GrabCutTool } from '@/components/GrabCutOverlay';
+import MaskBrushOverlay from '@/components/MaskBrushOverlay';
+import WandSeedOverlay from '@/components/WandSeedOverlay';
+import LiveWireOverlay from '@/components/LiveWireOverlay';
+import LassoOverlay from '@/components/LassoOverlay';
+import HistoryPanel from '@/components/HistoryPanel';
+import ZoomViewport from '@/components/ZoomViewport';
+import WipeOverlay from '@/components/WipeOverlay';
+import EyedropperOverlay from '@/components/EyedropperOverlay';
+import SampleRegionOverlay from '@/components/SampleRegionOverlay';
+import DetectorComparison, { PaletteDetector } from '@/components/DetectorComparison';
+import ProtectedColors from '@/components/ProtectedColors';
+import DiagnosticLegend from '@/components/DiagnosticLegend';
+import ToleranceHistogram from '@/components/ToleranceHistogram';
+import PixelInspector from '@/components/PixelInspector';
 import { useToast } from '@/hooks/use-toast';
+import { HistoryCommand, useHistory } from '@/hooks/use-history';
+import { FIT_VIEW, ViewState } from '@/lib/view-state';
+import { floodFillFromBorder } from '@/lib/matting/flood-fill';
+import { DistanceMetric, METRIC_PROFILES, RGB, getColorDistance, rescaleTolerance } from '@/lib/matting/color';
+import {
+  PaletteCluster,
+  PaletteEntry,
+  estimateBackgroundPalette,
+  getBackgroundColors,
+  sampleColor,
+  toPaletteEntries,
+  toleranceScales
+} from '@/lib/matting/palette';
+import { HistogramPeak, detectHistogramPeaks } from '@/lib/matting/histogram-peaks';
+import { BorderSide, DEFAULT_SAMPLING, SamplingOptions, sampleBorder, touchingSides } from '@/lib/matting/sampling';
+import {
+  GradientDegree,
+  GradientModel,
+  computeGradientDistanceMap,
+  fitGradientBackground,
+  predictBackground,
+  renderGradientPreview
+} from '@/lib/matting/gradient';
+import { computeDistanceMap, keyAlpha } from '@/lib/matting/keying';
+import {
+  DistanceHistogram,
+  ToleranceMethod,
+  buildDistanceHistogram,
+  findThreshold,
+  toleranceFromThreshold
+} from '@/lib/matting/auto-tolerance';
+import { refineMatte } from '@/lib/matting/refine';
+import { computeEdgeProtection, detectEdges, edgeProtectionParams } from '@/lib/matting/edges';
+import {
+  maskToOverlay,
+  renderAlphaMatte,
+  renderClusterAttribution,
+  renderConfidenceHeatmap,
+  renderRubylith
+} from '@/lib/matting/overlay';
+import { attributeClusters, removalShares } from '@/lib/matting/diagnostics';
+import { ProtectedColor, computeProtectionMask } from '@/lib/matting/protect';
+import { buildTrimap, solveClosedFormMatte } from '@/lib/matting/closed-form';
+import { decontaminate, nearestBackground } from '@/lib/matting/decontaminate';
+import { ChromaKeyScreen, KeyColor, chromaKeyAlpha, detectScreen, suppressSpill } from '@/lib/matting/chroma-key';
+import { PlateOffset, alignPlate, computePlateDistanceMap, plateBackgroundAt } from '@/lib/matting/clean-plate';
+import { BrushMode, BrushSettings, BrushStroke, applyEditMask, createEditMask, paintStroke, strokeBounds } from '@/lib/matting/mask-brush';
+import { SeedMode, WandSeed, applyWandRegions, growRegion } from '@/lib/matting/magic-wand';
+import { LiveWireGraph, LiveWirePath, createLiveWire, pathOutline } from '@/lib/matting/live-wire';
+import { Point, rasterizePolygon } from '@/lib/matting/polygon';
+import { LassoOperation, LassoSelection, LassoTool, applyLassoSelections } from '@/lib/matting/lasso';
+import { MaskDiff, applyDiff, copyRegion, diffArrays, diffBytes, diffRegion, pixelView } from '@/lib/matting/mask-diff';
+import {
+  GrabCutState,
+  MaskStroke,
+  Rect,
+  applyStrokes,
+  cloneGrabCut,
+  createGrabCut,
+  grabCutAlpha,
+  iterateGrabCut
+} from '@/lib/matting/grabcut';
+
+// global: 全图颜色匹配；floodFill: 从边缘出发的区域生长
+type DetectionMode = 'global' | 'floodFill';
+
+// palette: 边缘聚类得到的若干背景色；gradient: 随位置平滑变化的渐变背景；grabcut: 用户框选后的交互分割；
+// chromaKey: 绿幕/蓝幕色键；cleanPlate: 与不含主体的背景板逐像素比较；scissors: 智能剪刀描出的闭合轮廓
+type BackgroundModel = 'palette' | 'gradient' | 'grabcut' | 'chromaKey' | 'cleanPlate' | 'scissors';
+
+// 处理结果上的修补工具：擦除/恢复笔刷或多边形/自由套索
+type ResultTool = BrushMode | LassoTool;
+
+const SIDE_LABELS: Record<BorderSide, string> = { top: '上', bottom: '下', left: '左', right: '右' };
+
+// 吸管取色的去向：背景色列表或保护色列表
+type EyedropperTarget = 'background' | 'protect';
+
+const EMPTY_LIVE_WIRE_PATH: LiveWirePath = { anchors: [], segments: [], closed: false };
+
+// 处理结果的查看方式：抠图结果、前后对比卷帘、红膜叠加、只看 alpha，以及置信度热力图、聚类归属两种诊断视图
+type ResultView = 'cutout' | 'wipe' | 'rubylith' | 'alpha' | 'confidence' | 'clusters';
+
+// 抠图结果的预设底色，null 为透明棋盘格
+const MATTE_BACKGROUNDS: { value: string | null; label: string }[] = [
+  { value: null, label: '透明' },
+  { value: '#ffffff', label: '白色' },
+  { value: '#000000', label: '黑色' },
+  { value: '#808080', label: '灰色' },
+  { value: '#00b140', label: '绿色' }
+];
 
 interface ProcessingSettings {
-  colorTolerance: number;
+  // [内侧, 外侧]：内侧以内完全移除，外侧以外完全保留
+  colorTolerance: [number, number];
+  // 每次运行按距离直方图自动选取容差，并回填到滑块
+  autoTolerance: boolean;
+  toleranceMethod: ToleranceMethod;
+  distanceMetric: DistanceMetric;
+  backgroundModel: BackgroundModel;
+  // 调色板模型的背景色检测方式：边缘采样聚类或整幅图像的直方图峰值
+  paletteDetector: PaletteDetector;
+  gradientDegree: GradientDegree;
+  // 背景采样：参与采样的边、向内的采样宽度与采样间隔（像素），以及自定义采样矩形
+  sampleSides: BorderSide[];
+  sampleBand: number;
+  sampleStride: number;
+  sampleRegions: Rect[];
+  // 每次运行追加的 GrabCut 迭代次数
+  grabCutIterations: number;
+  // 色键参数：键色、键值强度（%）、黑白裁切（%）与溢色抑制（%）
+  keyColor: KeyColor;
+  keyStrength: number;
+  clipBlack: number;
+  clipWhite: number;
+  spillSuppression: number;
+  // 自动对齐背景板，以及允许的最大平移（像素）
+  plateAlignment: boolean;
+  plateMaxShift: number;
   edgeDetection: number;
+  // 羽化宽度（像素）
   feathering: number;
+  // 负值收缩蒙版，正值扩展蒙版（像素）
+  chokeSpread: number;
+  // 在蒙版边界的未知带内做闭式抠图，得到头发等细节的分数 alpha
+  mattingEnabled: boolean;
+  // 三分图未知带宽度（像素）
+  trimapBand: number;
+  // 边缘去色强度（0–100%）
+  decontamination: number;
+  detectionMode: DetectionMode;
+  removeHoles: boolean;
+  holeMinArea: number;
+}
+
+// 历史记录中显示的设置名称
+const SETTING_LABELS: Record<keyof ProcessingSettings, string> = {
+  colorTolerance: '颜色容差',
+  autoTolerance: '自动容差',
+  toleranceMethod: '阈值算法',
+  distanceMetric: '颜色距离',
+  backgroundModel: '背景模型',
+  paletteDetector: '背景色检测',
+  gradientDegree: '渐变曲面',
+  sampleSides: '采样边',
+  sampleBand: '采样宽度',
+  sampleStride: '采样间隔',
+  sampleRegions: '采样区域',
+  grabCutIterations: '分割迭代次数',
+  keyColor: '键色',
+  keyStrength: '键值强度',
+  clipBlack: '黑白裁切',
+  clipWhite: '黑白裁切',
+  spillSuppression: '溢色抑制',
+  plateAlignment: '自动对齐背景板',
+  plateMaxShift: '最大偏移',
+  edgeDetection: '边缘处理',
+  feathering: '边缘羽化',
+  chokeSpread: '收缩/扩展',
+  mattingEnabled: '精细抠图',
+  trimapBand: '未知带宽度',
+  decontamination: '边缘去色',
+  detectionMode: '检测算法',
+  removeHoles: '移除封闭孔洞',
+  holeMinArea: '孔洞最小面积'
+};
+
+// 连续拖动滑块时，停顿超过该时长才记为一步
+const HISTORY_DEBOUNCE = 500;
+
+// 每次运行得到的检测信息，随结果一起撤销/重做
+interface RunInfo {
+  protectedEdgeOverlay: string | null;
+  paletteClusters: PaletteEntry[];
+  gradientInfo: { preview: string; inlierRatio: number; axes: GradientModel['axes'] } | null;
+  chromaScreen: ChromaKeyScreen | null;
+  plateOffset: PlateOffset | null;
+  // 主体似乎接触到的采样边
+  touchedSides: BorderSide[];
+  // 到背景距离的直方图及自动检测的阈值
+  toleranceHistogram: { histogram: DistanceHistogram; threshold: number } | null;
+}
+
+const EMPTY_RUN_INFO: RunInfo = {
+  protectedEdgeOverlay: null,
+  paletteClusters: [],
+  gradientInfo: null,
+  chromaScreen: null,
+  plateOffset: null,
+  touchedSides: [],
+  toleranceHistogram: null
+};
+
+// 参与撤销/重做的编辑状态
+interface DocumentState {
+  settings: ProcessingSettings;
+  wandSeeds: WandSeed[];
+  lassoSelections: LassoSelection[];
+  // 锁定的背景色列表，null 表示每次运行自动检测
+  customPalette: PaletteEntry[] | null;
+  protectColors: ProtectedColor[];
+  // GrabCut 选框与修正笔画、智能剪刀的锚点与路径
+  grabCutRect: Rect | null;
+  grabCutStrokes: MaskStroke[];
+  scissorsPath: LiveWirePath;
+}
+
+// 最近一次运行的结果层：手动修补时只需与编辑层重新合成，无需重跑整个流程
+interface ResultLayers {
+  width: number;
+  height: number;
+  // 叠加魔棒区域、套索选区与编辑层之前的自动 alpha
+  baseAlpha: Float32Array;
+  // 原图像素，供魔棒生长区域
+  source: ImageData;
+  // 最终颜色（alpha 通道为原图 alpha）；开启去色时以 source 作为去色前的对比
+  colors: Uint8ClampedArray;
+  hasRawColors: boolean;
+  info: RunInfo;
 }
 
+// 描述两次编辑状态之间的变化，用作历史记录标题
+const describeChanges = (before: DocumentState, after: DocumentState): string[] => {
+  const labels = new Set<string>();
+  for (const key of Object.keys(after.settings) as (keyof ProcessingSettings)[]) {
+    if (JSON.stringify(before.settings[key]) !== JSON.stringify(after.settings[key])) {
+      labels.add(`调整${SETTING_LABELS[key]}`);
+    }
+  }
+  if (before.wandSeeds !== after.wandSeeds) {
+    labels.add(after.wandSeeds.length > before.wandSeeds.length ? '添加魔棒种子'
+      : after.wandSeeds.length < before.wandSeeds.length ? '删除魔棒种子' : '修改魔棒种子');
+  }
+  if (before.lassoSelections !== after.lassoSelections) {
+    labels.add(after.lassoSelections.length > before.lassoSelections.length ? '添加套索选区' : '删除套索选区');
+  }
+  if (before.customPalette !== after.customPalette) {
+    labels.add(!before.customPalette ? '锁定背景色' : !after.customPalette ? '解锁背景色' : '编辑背景色');
+  }
+  if (before.protectColors !== after.protectColors) {
+    labels.add(after.protectColors.length > before.protectColors.length ? '添加保护色'
+      : after.protectColors.length < before.protectColors.length ? '删除保护色' : '调整保护色容差');
+  }
+  if (before.grabCutRect !== after.grabCutRect) {
+    labels.add(after.grabCutRect ? '框选主体' : '清除选框');
+  }
+  if (before.grabCutStrokes !== after.grabCutStrokes && after.grabCutStrokes.length > 0) {
+    labels.add(after.grabCutStrokes.length > before.grabCutStrokes.length ? '添加修正笔画' : '删除修正笔画');
+  }
+  if (before.scissorsPath !== after.scissorsPath) {
+    labels.add(after.scissorsPath.anchors.length === 0 ? '清除剪刀路径'
+      : after.scissorsPath.closed && !before.scissorsPath.closed ? '闭合剪刀路径' : '编辑剪刀路径');
+  }
+  return [...labels];
+};
+
+const layersBytes = (layers: ResultLayers | null) => layers
+  ? layers.baseAlpha.byteLength + layers.colors.byteLength + layers.source.data.byteLength
+  : 0;
+
 const BackgroundRemover: React.FC = () => {
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [processedImage, setProcessedImage] = useState<string | null>(null);
+  // 去色前的结果，用于前后对比
+  const [rawResultImage, setRawResultImage] = useState<string | null>(null);
+  const [showRawResult, setShowRawResult] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [runInfo, setRunInfo] = useState<RunInfo>(EMPTY_RUN_INFO);
+  const { protectedEdgeOverlay, paletteClusters, gradientInfo, chromaScreen, plateOffset, touchedSides, toleranceHistogram } = runInfo;
+  const [showEdgeOverlay, setShowEdgeOverlay] = useState(false);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [grabCutRect, setGrabCutRect] = useState<Rect | null>(null);
+  const [grabCutStrokes, setGrabCutStrokes] = useState<MaskStroke[]>([]);
+  const [grabCutTool, setGrabCutTool] = useState<GrabCutTool>('rect');
+  // 干净背景板
+  const [cleanPlate, setCleanPlate] = useState<string | null>(null);
+  // 处理结果上的修补工具：null 表示未启用
+  const [resultTool, setResultTool] = useState<ResultTool | null>(null);
+  const [resultView, setResultView] = useState<ResultView>('cutout');
+  const [wipePosition, setWipePosition] = useState(0.5);
+  const [matteBackground, setMatteBackground] = useState<string | null>(null);
+  // 红膜、alpha 与诊断视图的渲染结果
+  const [viewImage, setViewImage] = useState<string | null>(null);
+  const [clusterShares, setClusterShares] = useState<number[] | null>(null);
+  const [brush, setBrush] = useState<BrushSettings>({ size: 30, hardness: 0.5, opacity: 1 });
+  const [editCount, setEditCount] = useState(0);
+  // 结果层被撤销/重做原地修改后递增，触发重新合成
+  const [layersVersion, setLayersVersion] = useState(0);
+  // 套索选区按添加顺序与蒙版做布尔运算
+  const [lassoOperation, setLassoOperation] = useState<LassoOperation>('add');
+  const [lassoSelections, setLassoSelections] = useState<LassoSelection[]>([]);
+  // 锁定的背景色列表，null 时每次运行自动检测
+  const [customPalette, setCustomPalette] = useState<PaletteEntry[] | null>(null);
+  // 保护色跨图片保留，便于连续处理同一品牌的商品图
+  const [protectColors, setProtectColors] = useState<ProtectedColor[]>([]);
+  const [showProtectedOverlay, setShowProtectedOverlay] = useState(false);
+  const [eyedropperTarget, setEyedropperTarget] = useState<EyedropperTarget | null>(null);
+  // 在原图上显示采样范围并拖动绘制自定义采样区域
+  const [sampleDrawing, setSampleDrawing] = useState(false);
+  // 两种背景色检测器在当前原图上的候选，点击对比时计算
+  const [detectorCandidates, setDetectorCandidates] = useState<{
+    border: PaletteCluster[];
+    histogram: HistogramPeak[];
+  } | null>(null);
+  // 魔棒种子：点击添加背景，Shift 点击添加前景
+  const [wandEnabled, setWandEnabled] = useState(false);
+  const [wandSeeds, setWandSeeds] = useState<WandSeed[]>([]);
+  const [selectedSeedId, setSelectedSeedId] = useState<number | null>(null);
+  const [wandTolerance, setWandTolerance] = useState(10);
+  // 智能剪刀的代价图（切换到该模型时按需计算）与当前路径
+  const [liveWireGraph, setLiveWireGraph] = useState<LiveWireGraph | null>(null);
+  // 原图像素，供智能剪刀与像素检查使用
+  const [originalData, setOriginalData] = useState<ImageData | null>(null);
+  // 两个预览共用的缩放/平移状态，以及光标下的原图坐标
+  const [view, setView] = useState<ViewState>(FIT_VIEW);
+  const [inspectPoint, setInspectPoint] = useState<[number, number] | null>(null);
+  const [scissorsPath, setScissorsPath] = useState<LiveWirePath>(EMPTY_LIVE_WIRE_PATH);
   const [settings, setSettings] = useState<ProcessingSettings>({
-    colorTolerance: 30,
+    colorTolerance: METRIC_PROFILES.rgb.defaultTolerance,
+    autoTolerance: false,
+    toleranceMethod: 'valley',
+    distanceMetric: 'rgb',
+    backgroundModel: 'palette',
+    paletteDetector: 'border',
+    gradientDegree: 1,
+    sampleSides: DEFAULT_SAMPLING.sides,
+    sampleBand: DEFAULT_SAMPLING.bandWidth,
+    sampleStride: DEFAULT_SAMPLING.stride,
+    sampleRegions: DEFAULT_SAMPLING.regions,
+    grabCutIterations: 5,
+    keyColor: 'auto',
+    keyStrength: 100,
+    clipBlack: 10,
+    clipWhite: 90,
+    spillSuppression: 50,
+    plateAlignment: true,
+    plateMaxShift: 16,
     edgeDetection: 5,
-    feathering: 2
+    feathering: 2,
+    chokeSpread: 0,
+    mattingEnabled: false,
+    trimapBand: 10,
+    decontamination: 0,
+    detectionMode: 'global',
+    removeHoles: false,
+    holeMinArea: 0.5
   });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const plateInputRef = useRef<HTMLInputElement>(null);
+  const plateImageRef = useRef<HTMLImageElement | null>(null);
+  const editMaskRef = useRef<Float32Array | null>(null);
+  // 最近一次合成的最终 alpha，供像素检查读取
+  const finalAlphaRef = useRef<Float32Array | null>(null);
+  const resultLayersRef = useRef<ResultLayers | null>(null);
+  const nextSeedIdRef = useRef(1);
+  // 按种子位置、容差与度量缓存生长出的区域，只保留当前种子用到的项
+  const wandRegionCacheRef = useRef(new Map<string, Uint8Array>());
+  const nextSelectionIdRef = useRef(1);
+  // 按选区 id 缓存光栅化结果，选区添加后不再变化
+  const lassoCoverageCacheRef = useRef(new Map<number, Float32Array>());
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const grabCutStateRef = useRef<GrabCutState | null>(null);
   const { toast } = useToast();
+  const history = useHistory();
+  const { push: pushHistory, clear: clearHistory, undo: undoHistory, redo: redoHistory, goTo: goToPosition } = history;
+
+  // 编辑状态的最新值与最近一次记入历史的值
+  const documentRef = useRef<DocumentState>({
+    settings, wandSeeds, lassoSelections, customPalette, protectColors, grabCutRect, grabCutStrokes, scissorsPath
+  });
+  documentRef.current = {
+    settings, wandSeeds, lassoSelections, customPalette, protectColors, grabCutRect, grabCutStrokes, scissorsPath
+  };
+  const committedDocumentRef = useRef<DocumentState>(documentRef.current);
+
+  const restoreDocument = useCallback((state: DocumentState) => {
+    // 笔画会直接写入 GrabCut 模型的标签，选框或笔画变化后从头建立模型
+    const current = documentRef.current;
+    if (state.grabCutRect !== current.grabCutRect || state.grabCutStrokes !== current.grabCutStrokes) {
+      grabCutStateRef.current = null;
+    }
+    committedDocumentRef.current = state;
+    setSettings(state.settings);
+    setWandSeeds(state.wandSeeds);
+    setLassoSelections(state.lassoSelections);
+    setCustomPalette(state.customPalette);
+    setProtectColors(state.protectColors);
+    setGrabCutRect(state.grabCutRect);
+    setGrabCutStrokes(state.grabCutStrokes);
+    setScissorsPath(state.scissorsPath);
+  }, []);
+
+  // 把尚未记入历史的设置、种子与选区变化记为一步
+  const flushDocumentChanges = useCallback(() => {
+    const before = committedDocumentRef.current;
+    const after = documentRef.current;
+    const labels = describeChanges(before, after);
+    if (labels.length === 0) return;
+    committedDocumentRef.current = after;
+    pushHistory({
+      label: labels.join('、'),
+      bytes: 0,
+      undo: () => restoreDocument(before),
+      redo: () => restoreDocument(after)
+    });
+  }, [pushHistory, restoreDocument]);
+
+  useEffect(() => {
+    const timer = setTimeout(flushDocumentChanges, HISTORY_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [
+    settings, wandSeeds, lassoSelections, customPalette, protectColors, grabCutRect, grabCutStrokes, scissorsPath,
+    flushDocumentChanges
+  ]);
+
+  // 换图或重新开始时清空历史，种子、选区、锁定的背景色、选框与剪刀路径随之清空，不记为一步
+  const resetHistory = useCallback(() => {
+    committedDocumentRef.current = {
+      ...committedDocumentRef.current,
+      wandSeeds: [],
+      lassoSelections: [],
+      customPalette: null,
+      grabCutRect: null,
+      grabCutStrokes: [],
+      scissorsPath: EMPTY_LIVE_WIRE_PATH
+    };
+    clearHistory();
+  }, [clearHistory]);
+
+  const undo = useCallback(() => {
+    flushDocumentChanges();
+    undoHistory();
+  }, [flushDocumentChanges, undoHistory]);
+
+  const redo = useCallback(() => {
+    flushDocumentChanges();
+    redoHistory();
+  }, [flushDocumentChanges, redoHistory]);
+
+  const goToHistory = useCallback((position: number) => {
+    flushDocumentChanges();
+    goToPosition(position);
+  }, [flushDocumentChanges, goToPosition]);
+
+  // Ctrl+Z 撤销，Ctrl+Shift+Z（或 Ctrl+Y）重做；输入框内保留浏览器默认行为
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -43,68 +507,416 @@ const BackgroundRemover: React.FC = () => {
     reader.onload = (e) => {
       setOriginalImage(e.target?.result as string);
       setProcessedImage(null);
+      setRawResultImage(null);
+      setRunInfo(EMPTY_RUN_INFO);
+      setImageSize(null);
+      setGrabCutRect(null);
+      setGrabCutStrokes([]);
+      grabCutStateRef.current = null;
+      editMaskRef.current = null;
+      resultLayersRef.current = null;
+      setEditCount(0);
+      setResultTool(null);
+      setLassoSelections([]);
+      lassoCoverageCacheRef.current.clear();
+      setWandSeeds([]);
+      setSelectedSeedId(null);
+      wandRegionCacheRef.current.clear();
+      setLiveWireGraph(null);
+      setScissorsPath(EMPTY_LIVE_WIRE_PATH);
+      setCustomPalette(null);
+      setEyedropperTarget(null);
+      setDetectorCandidates(null);
+      setView(FIT_VIEW);
+      resetHistory();
+    };
+    reader.readAsDataURL(file);
+  }, [resetHistory, toast]);
+
+  // 背景板解码后保存图片对象，运行时直接绘制到画布
+  const handlePlateUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast({
+        title: "错误",
+        description: "请选择一个有效的图片文件",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const src = e.target?.result as string;
+      const plate = new Image();
+      plate.onload = () => {
+        plateImageRef.current = plate;
+        setCleanPlate(src);
+      };
+      plate.onerror = () => {
+        toast({
+          title: "加载失败",
+          description: "无法加载背景板图片",
+          variant: "destructive"
+        });
+      };
+      plate.src = src;
     };
     reader.readAsDataURL(file);
   }, [toast]);
 
-  // 计算两个颜色之间的距离
-  const colorDistance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number): number => {
-    return Math.sqrt((r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2);
-  };
+  // 解码原图像素
+  useEffect(() => {
+    setOriginalData(null);
+    if (!originalImage) return;
 
-  // 获取图像边缘像素的主要颜色（作为背景色）
-  const getBackgroundColors = (imageData: ImageData): Array<{r: number, g: number, b: number}> => {
-    const data = imageData.data;
-    const width = imageData.width;
-    const height = imageData.height;
-    const colors: Array<{r: number, g: number, b: number, count: number}> = [];
-    
-    // 采样边缘像素
-    const samplePixels = [];
-    
-    // 上边缘和下边缘
-    for (let x = 0; x < width; x += 5) {
-      samplePixels.push({x, y: 0});
-      samplePixels.push({x, y: height - 1});
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (cancelled) return;
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(img, 0, 0);
+      setOriginalData(ctx.getImageData(0, 0, img.width, img.height));
+    };
+    img.src = originalImage;
+    return () => {
+      cancelled = true;
+    };
+  }, [originalImage]);
+
+  // 切换到智能剪刀时为原图建立代价图
+  useEffect(() => {
+    if (settings.backgroundModel !== 'scissors' || !originalData || liveWireGraph) return;
+    setLiveWireGraph(createLiveWire(originalData));
+  }, [settings.backgroundModel, originalData, liveWireGraph]);
+
+  // 撤销最后一个锚点；已闭合的路径先撤销闭合段
+  const undoScissorsAnchor = useCallback(() => {
+    setScissorsPath(prev => {
+      if (prev.closed) return { ...prev, segments: prev.segments.slice(0, -1), closed: false };
+      if (prev.anchors.length <= 1) return EMPTY_LIVE_WIRE_PATH;
+      return { anchors: prev.anchors.slice(0, -1), segments: prev.segments.slice(0, -1), closed: false };
+    });
+  }, []);
+
+  // 新选框需要重新建立 GrabCut 模型，之前的修正笔画也随之失效
+  const handleGrabCutRectChange = useCallback((rect: Rect) => {
+    setGrabCutRect(rect);
+    setGrabCutStrokes([]);
+    grabCutStateRef.current = null;
+  }, []);
+
+  // 自动 alpha 依次叠加魔棒区域、套索选区与笔刷编辑层
+  const composeAlpha = useCallback((baseAlpha: Float32Array, source: ImageData, editMask: Float32Array) => {
+    const colorDistance = getColorDistance(settings.distanceMetric);
+    const range = METRIC_PROFILES[settings.distanceMetric].max;
+    const previous = wandRegionCacheRef.current;
+    const cache = new Map<string, Uint8Array>();
+
+    const regions = wandSeeds.map((seed) => {
+      const key = `${seed.x},${seed.y},${seed.tolerance},${settings.distanceMetric}`;
+      const region = cache.get(key) ?? previous.get(key)
+        ?? growRegion(source, seed.x, seed.y, seed.tolerance / 100 * range, colorDistance);
+      cache.set(key, region);
+      return { mode: seed.mode, region };
+    });
+    wandRegionCacheRef.current = cache;
+
+    const previousCoverage = lassoCoverageCacheRef.current;
+    const coverageCache = new Map<number, Float32Array>();
+    const rasterize = (selection: LassoSelection) => {
+      const coverage = previousCoverage.get(selection.id) ?? rasterizePolygon(selection.points, source.width, source.height);
+      coverageCache.set(selection.id, coverage);
+      return coverage;
+    };
+    const selected = applyLassoSelections(applyWandRegions(baseAlpha, regions), lassoSelections, rasterize);
+    lassoCoverageCacheRef.current = coverageCache;
+
+    return applyEditMask(selected, editMask);
+  }, [wandSeeds, lassoSelections, settings.distanceMetric]);
+
+  const addLassoSelection = useCallback((points: Point[]) => {
+    const id = nextSelectionIdRef.current++;
+    setLassoSelections(prev => [...prev, { id, operation: lassoOperation, points }]);
+  }, [lassoOperation]);
+
+  // 由结果层、魔棒区域、套索选区与编辑层合成处理结果（及去色前的对比图）
+  const renderResult = useCallback(() => {
+    const layers = resultLayersRef.current;
+    const editMask = editMaskRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    if (!layers || !editMask) {
+      finalAlphaRef.current = null;
+      setProcessedImage(null);
+      setRawResultImage(null);
+      setRunInfo(EMPTY_RUN_INFO);
+      return;
     }
-    
-    // 左边缘和右边缘
-    for (let y = 0; y < height; y += 5) {
-      samplePixels.push({x: 0, y});
-      samplePixels.push({x: width - 1, y});
+
+    const alpha = composeAlpha(layers.baseAlpha, layers.source, editMask);
+    finalAlphaRef.current = alpha;
+    const compose = (colors: Uint8ClampedArray) => {
+      const output = new ImageData(layers.width, layers.height);
+      output.data.set(colors);
+      for (let i = 0; i < alpha.length; i++) {
+        output.data[i * 4 + 3] = Math.round(colors[i * 4 + 3] * alpha[i]);
+      }
+      canvas.width = layers.width;
+      canvas.height = layers.height;
+      ctx.putImageData(output, 0, 0);
+      return canvas.toDataURL('image/png');
+    };
+
+    setProcessedImage(compose(layers.colors));
+    setRawResultImage(layers.hasRawColors ? compose(layers.source.data) : null);
+    setRunInfo(layers.info);
+  }, [composeAlpha]);
+
+  // 种子、选区变化或撤销/重做后重新合成结果，无需重跑自动抠图
+  useEffect(() => {
+    renderResult();
+  }, [renderResult, layersVersion]);
+
+  // 诊断视图需要每个像素的最近背景色，只在切换到诊断视图后计算
+  const diagnosticView = resultView === 'confidence' || resultView === 'clusters';
+  // 外侧容差只影响单独设置了容差的颜色的距离换算；没有这类颜色时拖动容差滑块无需重新计算
+  const attributionTolerance = paletteClusters.some((cluster) => cluster.tolerance !== null)
+    ? settings.colorTolerance[1]
+    : null;
+  const attribution = useMemo(() => {
+    if (!diagnosticView || !originalData || paletteClusters.length === 0) return null;
+    return attributeClusters(
+      originalData,
+      paletteClusters,
+      getColorDistance(settings.distanceMetric),
+      attributionTolerance ?? 1
+    );
+  }, [diagnosticView, originalData, paletteClusters, settings.distanceMetric, attributionTolerance]);
+
+  // 红膜、alpha 与诊断视图跟随每次合成的结果重新渲染；热力图随容差滑块实时更新
+  useEffect(() => {
+    const alpha = finalAlphaRef.current;
+    const baseAlpha = resultLayersRef.current?.baseAlpha;
+    setClusterShares(null);
+    if (resultView === 'cutout' || resultView === 'wipe' || !processedImage || !alpha || !originalData
+      || originalData.width * originalData.height !== alpha.length) {
+      setViewImage(null);
+      return;
     }
-    
-    // 统计颜色
-    samplePixels.forEach(({x, y}) => {
-      const index = (y * width + x) * 4;
-      const r = data[index];
-      const g = data[index + 1];
-      const b = data[index + 2];
-      
-      // 查找相似颜色
-      let found = false;
-      for (let color of colors) {
-        if (colorDistance(r, g, b, color.r, color.g, color.b) < 30) {
-          color.count++;
-          found = true;
-          break;
+
+    switch (resultView) {
+      case 'alpha':
+        setViewImage(renderAlphaMatte(alpha, originalData.width, originalData.height));
+        break;
+      case 'rubylith':
+        setViewImage(renderRubylith(originalData, alpha));
+        break;
+      case 'confidence':
+        setViewImage(attribution ? renderConfidenceHeatmap(originalData, attribution.distances, settings.colorTolerance) : null);
+        break;
+      case 'clusters':
+        // 归属按自动抠图的 alpha 统计，手动修补不算在任何聚类头上
+        if (attribution && baseAlpha) {
+          setViewImage(renderClusterAttribution(originalData, baseAlpha, attribution.labels));
+          setClusterShares(removalShares(attribution.labels, baseAlpha, paletteClusters.length));
+        } else {
+          setViewImage(null);
         }
-      }
-      
-      if (!found) {
-        colors.push({r, g, b, count: 1});
-      }
+        break;
+    }
+  }, [resultView, processedImage, originalData, attribution, settings.colorTolerance, paletteClusters.length]);
+
+  // 吸管取色：加入保护色，或加入背景色列表并随之锁定
+  const handleEyedropperPick = useCallback((x: number, y: number) => {
+    if (!originalData) return;
+    const color = sampleColor(originalData, x, y);
+    if (eyedropperTarget === 'protect') {
+      setProtectColors(prev => [
+        ...prev,
+        {
+          ...color,
+          id: prev.reduce((max, entry) => Math.max(max, entry.id), 0) + 1,
+          tolerance: METRIC_PROFILES[settings.distanceMetric].defaultTolerance[0]
+        }
+      ]);
+      return;
+    }
+    setCustomPalette(prev => {
+      const entries = prev ?? paletteClusters;
+      const id = entries.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+      return [...entries, { ...color, weight: 0, sides: 0, rejected: false, id, tolerance: null, source: 'eyedropper' }];
     });
-    
-    // 返回最常见的几种颜色
-    return colors
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 3)
-      .map(({r, g, b}) => ({r, g, b}));
-  };
+  }, [originalData, paletteClusters, eyedropperTarget, settings.distanceMetric]);
+
+  // 用当前的采样设置与颜色距离分别运行两种检测器
+  const compareDetectors = useCallback(() => {
+    if (!originalData) return;
+    setDetectorCandidates({
+      border: estimateBackgroundPalette(originalData, settings.distanceMetric, {
+        sides: settings.sampleSides,
+        bandWidth: settings.sampleBand,
+        stride: settings.sampleStride,
+        regions: settings.sampleRegions
+      }),
+      histogram: detectHistogramPeaks(originalData, settings.distanceMetric)
+    });
+  }, [originalData, settings.distanceMetric, settings.sampleSides, settings.sampleBand, settings.sampleStride, settings.sampleRegions]);
+
+  // 保护区域叠加层随保护色实时更新，无需重新运行
+  const protectedOverlay = useMemo(() => {
+    if (!showProtectedOverlay || !originalData || protectColors.length === 0) return null;
+    const mask = computeProtectionMask(originalData, protectColors, getColorDistance(settings.distanceMetric));
+    return maskToOverlay(mask, originalData.width, originalData.height, [34, 197, 94, 200]);
+  }, [showProtectedOverlay, originalData, protectColors, settings.distanceMetric]);
+
+  // 编辑层的一次修改记为一步，只保存变化的像素
+  const recordEditMask = useCallback((label: string, diff: MaskDiff<Float32Array>, countBefore: number, countAfter: number) => {
+    const mask = editMaskRef.current;
+    if (!mask || diff.indices.length === 0) return;
+
+    const apply = (side: 'before' | 'after', count: number) => {
+      const current = editMaskRef.current;
+      if (!current || current.length !== mask.length) return;
+      applyDiff(current, diff, side);
+      setEditCount(count);
+      setLayersVersion(prev => prev + 1);
+    };
+    pushHistory({
+      label,
+      bytes: diffBytes(diff),
+      undo: () => apply('before', countBefore),
+      redo: () => apply('after', countAfter)
+    });
+  }, [pushHistory]);
+
+  // 一次运行记为一步：尺寸不变时只保存 alpha 与颜色中变化的部分
+  const createRunCommand = useCallback((previous: ResultLayers | null, next: ResultLayers, label: string): HistoryCommand => {
+    if (!previous || previous.width !== next.width || previous.height !== next.height) {
+      const swap = (layers: ResultLayers | null) => {
+        resultLayersRef.current = layers;
+        setLayersVersion(prev => prev + 1);
+      };
+      // next 即当前的结果层，不计入历史占用
+      return {
+        label,
+        bytes: layersBytes(previous),
+        undo: () => swap(previous),
+        redo: () => swap(next)
+      };
+    }
+
+    const alphaDiff = diffArrays(previous.baseAlpha, next.baseAlpha);
+    const colorDiff = diffArrays(pixelView(previous.colors), pixelView(next.colors));
+    const apply = (side: 'before' | 'after', from: Pick<ResultLayers, 'hasRawColors' | 'info'>) => {
+      const current = resultLayersRef.current;
+      if (!current) return;
+      applyDiff(current.baseAlpha, alphaDiff, side);
+      applyDiff(pixelView(current.colors), colorDiff, side);
+      current.hasRawColors = from.hasRawColors;
+      current.info = from.info;
+      setLayersVersion(prev => prev + 1);
+    };
+    const before = { hasRawColors: previous.hasRawColors, info: previous.info };
+    const after = { hasRawColors: next.hasRawColors, info: next.info };
+    return {
+      label,
+      bytes: diffBytes(alphaDiff) + diffBytes(colorDiff),
+      undo: () => apply('before', before),
+      redo: () => apply('after', after)
+    };
+  }, []);
+
+  const addWandSeed = useCallback((x: number, y: number, mode: SeedMode) => {
+    const id = nextSeedIdRef.current++;
+    setWandSeeds(prev => [...prev, { id, x, y, mode, tolerance: wandTolerance }]);
+    setSelectedSeedId(id);
+  }, [wandTolerance]);
+
+  const updateWandSeed = useCallback((id: number, changes: Partial<Omit<WandSeed, 'id'>>) => {
+    setWandSeeds(prev => prev.map((seed) => seed.id === id ? { ...seed, ...changes } : seed));
+  }, []);
+
+  const deleteWandSeed = useCallback((id: number) => {
+    setWandSeeds(prev => prev.filter((seed) => seed.id !== id));
+    setSelectedSeedId(prev => prev === id ? null : prev);
+  }, []);
+
+  const handleBrushStroke = useCallback((stroke: BrushStroke) => {
+    const layers = resultLayersRef.current;
+    if (!layers || !editMaskRef.current) return;
+    const bounds = strokeBounds(stroke, layers.width, layers.height);
+    if (!bounds) return;
+    flushDocumentChanges();
+    // 只复制并比较笔画范围内的编辑层
+    const before = copyRegion(editMaskRef.current, layers.width, bounds);
+    paintStroke(editMaskRef.current, layers.width, layers.height, stroke);
+    const diff = diffRegion(before, editMaskRef.current, layers.width, bounds);
+    recordEditMask(stroke.mode === 'erase' ? '擦除' : '恢复', diff, editCount, editCount + 1);
+    setEditCount(editCount + 1);
+    renderResult();
+  }, [editCount, flushDocumentChanges, recordEditMask, renderResult]);
+
+  const clearEdits = useCallback(() => {
+    if (!editMaskRef.current) return;
+    flushDocumentChanges();
+    const before = editMaskRef.current.slice();
+    editMaskRef.current.fill(0);
+    recordEditMask('清除修补', diffArrays(before, editMaskRef.current), editCount, 0);
+    setEditCount(0);
+    renderResult();
+  }, [editCount, flushDocumentChanges, recordEditMask, renderResult]);
+
+  // 依赖边缘采样的模型：调色板（未锁定时）、渐变与色键
+  const usesSampling = settings.backgroundModel === 'gradient' || settings.backgroundModel === 'chromaKey'
+    || (settings.backgroundModel === 'palette' && !customPalette && settings.paletteDetector === 'border');
 
   const removeBackground = useCallback(async () => {
     if (!originalImage || !canvasRef.current) return;
+    flushDocumentChanges();
+
+    if (settings.backgroundModel === 'grabcut' && !grabCutRect) {
+      toast({
+        title: "缺少选框",
+        description: "请先在原图上拖动鼠标框选主体",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (settings.backgroundModel === 'scissors' && !scissorsPath.closed) {
+      toast({
+        title: "路径未闭合",
+        description: "请沿主体轮廓放置锚点，并点击起点闭合路径",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (usesSampling && settings.sampleSides.length === 0 && settings.sampleRegions.length === 0) {
+      toast({
+        title: "缺少采样范围",
+        description: "请至少选择一条采样边，或在原图上绘制采样区域",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (settings.backgroundModel === 'cleanPlate' && !plateImageRef.current) {
+      toast({
+        title: "缺少背景板",
+        description: "请先上传一张不含主体、机位相同的背景照片",
+        variant: "destructive"
+      });
+      return;
+    }
 
     setIsProcessing(true);
     
@@ -129,83 +941,267 @@ const BackgroundRemover: React.FC = () => {
 
           console.log('开始处理图片，尺寸:', width, 'x', height);
 
-          // 获取背景颜色
-          const backgroundColors = getBackgroundColors(imageData);
-          console.log('检测到的背景色:', backgroundColors);
-
-          // 第一步：基于颜色相似度标记背景像素
-          for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-              const pixelIdx = (y * width + x) * 4;
-              
-              const r = data[pixelIdx];
-              const g = data[pixelIdx + 1];
-              const b = data[pixelIdx + 2];
-
-              // 检查是否与背景色相似
-              let isBackground = false;
-              for (let bgColor of backgroundColors) {
-                const distance = colorDistance(r, g, b, bgColor.r, bgColor.g, bgColor.b);
-                if (distance < settings.colorTolerance) {
-                  isBackground = true;
-                  break;
-                }
+          const colorDistance = getColorDistance(settings.distanceMetric);
+          let alpha: Float32Array;
+          // 每个像素处的背景色估计，供边缘去色使用
+          let backgroundAt: (index: number) => RGB;
+          let screen: ChromaKeyScreen | null = null;
+          // 保护色像素：精修与抠图之后强制不透明，色键模式下也不做溢色抑制
+          let protectedMask: Uint8Array | null = null;
+          // 本次实际使用的容差，自动容差时回填到滑块
+          let chosenTolerance: [number, number] | null = null;
+          // 运行前后的 GrabCut 模型，撤销本次运行时一并恢复，再次运行才能得到相同的结果
+          let grabCutModels: { before: GrabCutState | null; after: GrabCutState } | null = null;
+          const info: RunInfo = { ...EMPTY_RUN_INFO };
+          const sampling: SamplingOptions = {
+            sides: settings.sampleSides,
+            bandWidth: settings.sampleBand,
+            stride: settings.sampleStride,
+            regions: settings.sampleRegions
+          };
+
+          if (settings.backgroundModel === 'grabcut') {
+            // 第一步：在用户框选的范围内迭代 GrabCut 分割，选框变化前保留模型以便追加迭代
+            const modelBefore = grabCutStateRef.current && cloneGrabCut(grabCutStateRef.current);
+            if (!grabCutStateRef.current) {
+              grabCutStateRef.current = createGrabCut(imageData, grabCutRect);
+            }
+            applyStrokes(grabCutStateRef.current, grabCutStrokes);
+            iterateGrabCut(grabCutStateRef.current, settings.grabCutIterations);
+            grabCutModels = { before: modelBefore, after: cloneGrabCut(grabCutStateRef.current) };
+            alpha = grabCutAlpha(grabCutStateRef.current, imageData);
+            const borderColors = getBackgroundColors(imageData, settings.distanceMetric, sampling);
+            backgroundAt = nearestBackground(data, borderColors, colorDistance);
+          } else if (settings.backgroundModel === 'scissors') {
+            // 第一步：智能剪刀闭合路径的内部为前景
+            alpha = rasterizePolygon(pathOutline(scissorsPath), width, height);
+            const borderColors = getBackgroundColors(imageData, settings.distanceMetric, sampling);
+            backgroundAt = nearestBackground(data, borderColors, colorDistance);
+          } else if (settings.backgroundModel === 'chromaKey') {
+            // 第一步：按色相与饱和度生成色键 alpha
+            const keyScreen = detectScreen(imageData, settings.keyColor, sampling);
+            screen = keyScreen;
+            alpha = chromaKeyAlpha(imageData, keyScreen, {
+              strength: settings.keyStrength / 100,
+              clipBlack: settings.clipBlack / 100,
+              clipWhite: settings.clipWhite / 100
+            });
+            backgroundAt = () => keyScreen.color;
+            info.chromaScreen = keyScreen;
+
+            // 保护色优先于色键
+            if (protectColors.length > 0) {
+              const mask = computeProtectionMask(imageData, protectColors, colorDistance);
+              for (let i = 0; i < width * height; i++) {
+                if (mask[i]) alpha[i] = 1;
               }
+              protectedMask = mask;
+            }
+          } else {
+            // 第一步：根据到背景的距离计算软 alpha
+            let distances: Float32Array;
+            // 有单独设置容差的背景色时，确定外侧容差后再按它换算距离
+            let rescaleDistances: ((outerTolerance: number) => Float32Array) | null = null;
 
-              // 如果是背景色，设置为透明
-              if (isBackground) {
-                data[pixelIdx + 3] = 0; // alpha = 0 (透明)
+            if (settings.backgroundModel === 'cleanPlate' && plateImageRef.current) {
+              // 背景板：缩放到原图尺寸后对齐，逐像素比较颜色差异
+              const plateImage = plateImageRef.current;
+              if (Math.abs(plateImage.width / plateImage.height - width / height) > 0.02) {
+                throw new Error('背景板与原图的宽高比不一致');
+              }
+              ctx.drawImage(plateImage, 0, 0, width, height);
+              const plateData = ctx.getImageData(0, 0, width, height);
+              const offset = settings.plateAlignment
+                ? alignPlate(imageData, plateData, settings.plateMaxShift)
+                : { dx: 0, dy: 0 };
+              distances = computePlateDistanceMap(imageData, plateData, offset, colorDistance);
+              backgroundAt = plateBackgroundAt(imageData, plateData, offset);
+              info.plateOffset = offset;
+            } else if (settings.backgroundModel === 'gradient') {
+              // 渐变背景：拟合边缘采样的平滑曲面，与每个像素位置的预测背景色比较
+              const model = fitGradientBackground(sampleBorder(imageData, sampling), width, height, settings.gradientDegree);
+              distances = computeGradientDistanceMap(imageData, model, colorDistance);
+              backgroundAt = (index) => predictBackground(model, index % width, Math.floor(index / width));
+              info.gradientInfo = {
+                preview: renderGradientPreview(model, 160),
+                inlierRatio: model.inlierRatio,
+                axes: model.axes
+              };
+            } else {
+              // 获取背景颜色：锁定时使用用户编辑的列表，否则对边缘采样聚类或取直方图峰值，剔除疑似主体的颜色
+              const palette = customPalette ?? (settings.paletteDetector === 'histogram'
+                ? toPaletteEntries(detectHistogramPeaks(imageData, settings.distanceMetric), 'histogram')
+                : toPaletteEntries(estimateBackgroundPalette(imageData, settings.distanceMetric, sampling), 'border'));
+              const backgroundColors = palette.filter((cluster) => !cluster.rejected);
+              if (backgroundColors.length === 0) {
+                throw new Error('没有可用的背景色，请用吸管添加或解除锁定');
               }
+              info.paletteClusters = palette;
+              console.log('检测到的背景色:', backgroundColors);
+              distances = computeDistanceMap(imageData, backgroundColors, colorDistance);
+              // 单独设置容差的颜色把距离换算到全局容差的尺度，之后的阈值与软抠像照常进行
+              if (backgroundColors.some((cluster) => cluster.tolerance !== null)) {
+                rescaleDistances = (outerTolerance) => computeDistanceMap(
+                  imageData,
+                  backgroundColors,
+                  colorDistance,
+                  toleranceScales(backgroundColors, outerTolerance)
+                );
+              }
+              backgroundAt = nearestBackground(data, backgroundColors, colorDistance);
             }
-          }
+            // 在距离直方图的背景峰与主体之间找阈值；开启自动容差时以它为中心设定内外侧容差。
+            // 直方图用未换算的距离，外侧容差确定后再换算单独设置容差的颜色
+            const profile = METRIC_PROFILES[settings.distanceMetric];
+            const histogram = buildDistanceHistogram(distances, profile.max);
+            const threshold = findThreshold(histogram, settings.toleranceMethod);
+            info.toleranceHistogram = { histogram, threshold };
+            const [innerTolerance, outerTolerance] = settings.autoTolerance
+              ? toleranceFromThreshold(threshold, profile)
+              : settings.colorTolerance;
+            chosenTolerance = [innerTolerance, outerTolerance];
+            if (rescaleDistances) distances = rescaleDistances(outerTolerance);
 
-          // 第二步：边缘处理 - 检测前景物体边缘附近的半透明处理
-          if (settings.edgeDetection > 0) {
-            const newData = new Uint8ClampedArray(data);
-            
-            for (let y = 1; y < height - 1; y++) {
-              for (let x = 1; x < width - 1; x++) {
-                const pixelIdx = (y * width + x) * 4;
-                
-                // 如果当前像素是背景（透明的）
-                if (data[pixelIdx + 3] === 0) {
-                  // 检查周围是否有前景像素
-                  let hasOpaqueNeighbor = false;
-                  
-                  for (let dy = -1; dy <= 1; dy++) {
-                    for (let dx = -1; dx <= 1; dx++) {
-                      if (dx === 0 && dy === 0) continue;
-                      
-                      const neighborY = y + dy;
-                      const neighborX = x + dx;
-                      
-                      if (neighborY >= 0 && neighborY < height && neighborX >= 0 && neighborX < width) {
-                        const neighborIdx = (neighborY * width + neighborX) * 4;
-                        if (data[neighborIdx + 3] > 0) {
-                          hasOpaqueNeighbor = true;
-                          break;
-                        }
-                      }
-                    }
-                    if (hasOpaqueNeighbor) break;
-                  }
-                  
-                  // 如果有不透明的邻居，给当前像素一些透明度来平滑边缘
-                  if (hasOpaqueNeighbor && settings.feathering > 0) {
-                    newData[pixelIdx + 3] = Math.min(255, settings.feathering * 30);
-                  }
-                }
+            // 距离小于外侧容差的像素都可能属于背景；保护色优先，其像素不作为候选，区域生长也无法越过
+            if (protectColors.length > 0) {
+              protectedMask = computeProtectionMask(imageData, protectColors, colorDistance);
+            }
+            const candidate = new Uint8Array(width * height);
+            for (let i = 0; i < width * height; i++) {
+              if (distances[i] < outerTolerance && !protectedMask?.[i]) candidate[i] = 1;
+            }
+
+            // 区域生长模式下只保留与边缘连通的背景区域
+            const buildBackgroundMask = () => settings.detectionMode === 'floodFill'
+              ? floodFillFromBorder(width, height, candidate, {
+                  removeHoles: settings.removeHoles,
+                  holeMinArea: settings.holeMinArea
+                })
+              : candidate.slice();
+            let backgroundMask = buildBackgroundMask();
+
+            // 边缘保护：靠近抠像边界的强边缘及其附近像素不参与移除，区域生长也无法越过
+            let edgeOverlay: string | null = null;
+            if (settings.edgeDetection > 0) {
+              const { high, low, radius } = edgeProtectionParams(settings.edgeDetection);
+              const edges = detectEdges(imageData, high, low);
+              const { protectedEdges, protectedZone } = computeEdgeProtection(edges, backgroundMask, width, height, radius);
+
+              for (let i = 0; i < width * height; i++) {
+                if (protectedZone[i]) candidate[i] = 0;
               }
+              backgroundMask = buildBackgroundMask();
+              edgeOverlay = maskToOverlay(protectedEdges, width, height, [255, 64, 64, 220]);
+            }
+            info.protectedEdgeOverlay = edgeOverlay;
+
+            // 背景像素按距离渐变为透明
+            alpha = new Float32Array(width * height).fill(1);
+            for (let i = 0; i < width * height; i++) {
+              if (backgroundMask[i]) {
+                alpha[i] = keyAlpha(distances[i], innerTolerance, outerTolerance);
+              }
+            }
+          }
+
+          // 第二步：收缩/扩展蒙版并按距离变换羽化边缘
+          refineMatte(alpha, width, height, {
+            chokeSpread: settings.chokeSpread,
+            feathering: settings.feathering
+          });
+
+          // 第三步：由当前蒙版生成三分图，在未知带内求解分数 alpha
+          if (settings.mattingEnabled) {
+            const trimap = buildTrimap(alpha, width, height, settings.trimapBand);
+            solveClosedFormMatte(imageData, alpha, trimap);
+          }
+
+          // 保护色优先：收缩、羽化与精细抠图都不能降低保护像素的不透明度
+          if (protectedMask) {
+            for (let i = 0; i < width * height; i++) {
+              if (protectedMask[i]) alpha[i] = 1;
             }
-            
-            // 应用新的数据
-            data.set(newData);
+          }
+
+          // 主体接触采样边时，边缘采样会混入主体颜色
+          if (usesSampling) {
+            info.touchedSides = touchingSides(alpha, width, height, settings.sampleSides);
+          }
+
+          // 叠加手动修补的编辑层；编辑层跨多次运行保留，图片尺寸变化时重建
+          if (!editMaskRef.current || editMaskRef.current.length !== width * height) {
+            editMaskRef.current = createEditMask(width, height);
+          }
+          const baseAlpha = alpha;
+          // 同一张原图的像素不变，沿用上次的副本
+          const previous = resultLayersRef.current;
+          const source = previous && previous.width === width && previous.height === height
+            ? previous.source
+            : new ImageData(data.slice(), width, height);
+          alpha = composeAlpha(baseAlpha, source, editMaskRef.current);
+
+          // 第四步：反解半透明边缘像素的前景色，去除原背景留下的色边
+          decontaminate(data, alpha, backgroundAt, settings.decontamination / 100);
+
+          // 色键模式下中和主体上残留的幕布颜色
+          if (screen) {
+            suppressSpill(data, alpha, screen, settings.spillSuppression / 100, protectedMask);
           }
 
           console.log('背景处理完成');
-          
-          ctx.putImageData(imageData, 0, 0);
-          setProcessedImage(canvas.toDataURL('image/png'));
+
+          const layers: ResultLayers = {
+            width,
+            height,
+            baseAlpha,
+            source,
+            colors: data,
+            hasRawColors: settings.decontamination > 0,
+            info
+          };
+          resultLayersRef.current = layers;
+          const layersCommand = createRunCommand(previous, layers, '运行背景移除');
+          const models = grabCutModels;
+          const runCommand: HistoryCommand = models
+            ? {
+              ...layersCommand,
+              bytes: layersCommand.bytes + (models.before?.labels.byteLength ?? 0) + models.after.labels.byteLength,
+              undo: () => {
+                layersCommand.undo();
+                grabCutStateRef.current = models.before && cloneGrabCut(models.before);
+              },
+              redo: () => {
+                layersCommand.redo();
+                grabCutStateRef.current = cloneGrabCut(models.after);
+              }
+            }
+            : layersCommand;
+          // 处理期间的设置改动先单独记为一步，回填容差时不会把它们覆盖
+          flushDocumentChanges();
+          const documentBefore = committedDocumentRef.current;
+          if (settings.autoTolerance && chosenTolerance
+            && JSON.stringify(chosenTolerance) !== JSON.stringify(documentBefore.settings.colorTolerance)) {
+            // 自动选取的容差回填到滑块，并与本次运行记为同一步，撤销时一并恢复
+            const documentAfter: DocumentState = {
+              ...documentBefore,
+              settings: { ...documentBefore.settings, colorTolerance: chosenTolerance }
+            };
+            pushHistory({
+              ...runCommand,
+              undo: () => {
+                runCommand.undo();
+                restoreDocument(documentBefore);
+              },
+              redo: () => {
+                runCommand.redo();
+                restoreDocument(documentAfter);
+              }
+            });
+            restoreDocument(documentAfter);
+          } else {
+            pushHistory(runCommand);
+          }
+          renderResult();
           
           toast({
             title: "处理完成",
@@ -215,7 +1211,7 @@ const BackgroundRemover: React.FC = () => {
           console.error('处理过程中出错:', error);
           toast({
             title: "处理失败",
-            description: "图片处理过程中出现错误",
+            description: error instanceof Error ? error.message : "图片处理过程中出现错误",
             variant: "destructive"
           });
         } finally {
@@ -243,7 +1239,7 @@ const BackgroundRemover: React.FC = () => {
       });
       setIsProcessing(false);
     }
-  }, [originalImage, settings, toast]);
+  }, [originalImage, settings, customPalette, protectColors, usesSampling, grabCutRect, grabCutStrokes, scissorsPath, composeAlpha, renderResult, flushDocumentChanges, restoreDocument, pushHistory, createRunCommand, toast]);
 
   const downloadImage = useCallback(() => {
     if (!processedImage) return;
@@ -259,13 +1255,51 @@ const BackgroundRemover: React.FC = () => {
     });
   }, [processedImage, toast]);
 
+  const brushMode = resultTool === 'erase' || resultTool === 'restore' ? resultTool : null;
+  const lassoTool = resultTool === 'polygon' || resultTool === 'freehand' ? resultTool : null;
+  // 按颜色判断背景的模型才支持保护色
+  const colorKeyed = settings.backgroundModel !== 'grabcut' && settings.backgroundModel !== 'scissors';
+  // 按到背景的距离抠像的模型才使用容差、边缘保护与检测算法，也才有距离直方图与自动容差
+  const distanceKeyed = colorKeyed && settings.backgroundModel !== 'chromaKey';
+  // 吸管只在对应的列表可见时生效
+  const eyedropperVisible = eyedropperTarget === 'protect'
+    ? colorKeyed
+    : eyedropperTarget === 'background' && settings.backgroundModel === 'palette';
+
   const resetImage = useCallback(() => {
     setOriginalImage(null);
     setProcessedImage(null);
+    setRawResultImage(null);
+    setRunInfo(EMPTY_RUN_INFO);
+    setImageSize(null);
+    setGrabCutRect(null);
+    setGrabCutStrokes([]);
+    grabCutStateRef.current = null;
+    setCleanPlate(null);
+    plateImageRef.current = null;
+    editMaskRef.current = null;
+    resultLayersRef.current = null;
+    setEditCount(0);
+    setResultTool(null);
+    setLassoSelections([]);
+    lassoCoverageCacheRef.current.clear();
+    setWandSeeds([]);
+    setSelectedSeedId(null);
+    wandRegionCacheRef.current.clear();
+    setLiveWireGraph(null);
+    setScissorsPath(EMPTY_LIVE_WIRE_PATH);
+    setCustomPalette(null);
+    setEyedropperTarget(null);
+    setDetectorCandidates(null);
+    setView(FIT_VIEW);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
-  }, []);
+    if (plateInputRef.current) {
+      plateInputRef.current.value = '';
+    }
+    resetHistory();
+  }, [resetHistory]);
 
   return (
     <div className="w-full max-w-6xl mx-auto p-6 space-y-6">
@@ -308,79 +1342,1012 @@ const BackgroundRemover: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* 原图预览 */}
           <Card className="glass-effect p-6">
-            <h3 className="text-lg font-semibold mb-4">原图</h3>
-            <div className="relative aspect-square rounded-lg overflow-hidden bg-gray-100">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">原图</h3>
+              <div className="flex items-center gap-4">
+                {protectedEdgeOverlay && (
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="showEdgeOverlay" className="text-sm">显示保护边缘</Label>
+                    <Switch
+                      id="showEdgeOverlay"
+                      checked={showEdgeOverlay}
+                      onCheckedChange={setShowEdgeOverlay}
+                    />
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="wandEnabled" className="text-sm">魔棒点选</Label>
+                  <Switch
+                    id="wandEnabled"
+                    checked={wandEnabled}
+                    onCheckedChange={setWandEnabled}
+                  />
+                </div>
+              </div>
+            </div>
+            {settings.backgroundModel === 'grabcut' && (
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={grabCutTool}
+                  onValueChange={(value) => value && setGrabCutTool(value as GrabCutTool)}
+                >
+                  <ToggleGroupItem value="rect">框选主体</ToggleGroupItem>
+                  <ToggleGroupItem value="foreground">标记前景</ToggleGroupItem>
+                  <ToggleGroupItem value="background">标记背景</ToggleGroupItem>
+                </ToggleGroup>
+                <p className="text-xs text-muted-foreground">
+                  {grabCutRect ? '可涂抹修正后再次运行' : '拖动鼠标框选主体'}
+                </p>
+              </div>
+            )}
+            {settings.backgroundModel === 'scissors' && (
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={scissorsPath.anchors.length === 0}
+                  onClick={undoScissorsAnchor}
+                >
+                  撤销锚点
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={scissorsPath.anchors.length === 0}
+                  onClick={() => setScissorsPath(EMPTY_LIVE_WIRE_PATH)}
+                >
+                  清除路径
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  {!liveWireGraph
+                    ? '正在计算边缘代价...'
+                    : scissorsPath.closed
+                      ? '路径已闭合，可以运行'
+                      : '沿主体轮廓点击放置锚点，点击起点或双击闭合'}
+                </p>
+              </div>
+            )}
+            {settings.backgroundModel === 'cleanPlate' && (
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                {cleanPlate && (
+                  <img
+                    src={cleanPlate}
+                    alt="背景板"
+                    className="w-12 h-12 rounded border object-cover"
+                  />
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => plateInputRef.current?.click()}
+                >
+                  <ImagePlus className="w-4 h-4 mr-2" />
+                  {cleanPlate ? '更换背景板' : '上传背景板'}
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  {plateOffset
+                    ? `对齐偏移: ${plateOffset.dx}, ${plateOffset.dy}px`
+                    : '同一机位拍摄的空场景照片'}
+                </p>
+                <input
+                  ref={plateInputRef}
+                  type="file"
+                  accept="image/*"
+                  onChange={handlePlateUpload}
+                  className="hidden"
+                />
+              </div>
+            )}
+            <ZoomViewport
+              className="bg-gray-100"
+              imageWidth={imageSize?.width ?? 1}
+              imageHeight={imageSize?.height ?? 1}
+              view={view}
+              onViewChange={setView}
+              onHover={setInspectPoint}
+            >
               <img
                 src={originalImage}
                 alt="原图"
                 className="w-full h-full object-contain"
+                onLoad={(e) => setImageSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight
+                })}
               />
-            </div>
+              {settings.backgroundModel === 'grabcut' && !wandEnabled && imageSize && (
+                <GrabCutOverlay
+                  imageWidth={imageSize.width}
+                  imageHeight={imageSize.height}
+                  tool={grabCutTool}
+                  rect={grabCutRect}
+                  strokes={grabCutStrokes}
+                  brushRadius={Math.max(4, Math.round(Math.max(imageSize.width, imageSize.height) / 80))}
+                  onRectChange={handleGrabCutRectChange}
+                  onStrokeAdd={(stroke) => setGrabCutStrokes(prev => [...prev, stroke])}
+                />
+              )}
+              {showEdgeOverlay && protectedEdgeOverlay && (
+                <img
+                  src={protectedEdgeOverlay}
+                  alt="保护边缘"
+                  className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                />
+              )}
+              {settings.backgroundModel === 'scissors' && !wandEnabled && imageSize && liveWireGraph && (
+                <LiveWireOverlay
+                  imageWidth={imageSize.width}
+                  imageHeight={imageSize.height}
+                  graph={liveWireGraph}
+                  path={scissorsPath}
+                  onPathChange={setScissorsPath}
+                />
+              )}
+              {wandEnabled && imageSize && (
+                <WandSeedOverlay
+                  imageWidth={imageSize.width}
+                  imageHeight={imageSize.height}
+                  seeds={wandSeeds}
+                  selectedId={selectedSeedId}
+                  onSeedAdd={addWandSeed}
+                  onSeedMove={(id, x, y) => updateWandSeed(id, { x, y })}
+                  onSeedSelect={setSelectedSeedId}
+                />
+              )}
+              {showProtectedOverlay && protectedOverlay && (
+                <img
+                  src={protectedOverlay}
+                  alt="保护区域"
+                  className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                />
+              )}
+              {sampleDrawing && usesSampling && imageSize && (
+                <SampleRegionOverlay
+                  imageWidth={imageSize.width}
+                  imageHeight={imageSize.height}
+                  sides={settings.sampleSides}
+                  bandWidth={settings.sampleBand}
+                  regions={settings.sampleRegions}
+                  onRegionAdd={(region) => setSettings(prev => ({ ...prev, sampleRegions: [...prev.sampleRegions, region] }))}
+                />
+              )}
+              {eyedropperVisible && imageSize && (
+                <EyedropperOverlay
+                  imageWidth={imageSize.width}
+                  imageHeight={imageSize.height}
+                  onPick={handleEyedropperPick}
+                />
+              )}
+            </ZoomViewport>
+            {touchedSides.length > 0 && (
+              <div className="mt-3 flex items-start gap-2 text-sm text-amber-600">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <p>
+                  主体似乎接触了{touchedSides.map((side) => SIDE_LABELS[side]).join('、')}边，
+                  边缘采样可能混入主体颜色，建议在"背景采样"中取消这些边或绘制自定义采样区域
+                </p>
+              </div>
+            )}
+            {wandEnabled && (
+              <div className="mt-4 space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="wandTolerance" className="text-xs">新种子容差: {wandTolerance}%</Label>
+                  <Slider
+                    id="wandTolerance"
+                    min={1}
+                    max={50}
+                    step={1}
+                    value={[wandTolerance]}
+                    onValueChange={(value) => setWandTolerance(value[0])}
+                  />
+                  <p className="text-xs text-muted-foreground">点击添加背景种子，按住 Shift 点击添加前景种子，拖动种子可移动</p>
+                </div>
+                {wandSeeds.map((seed, index) => (
+                  <div
+                    key={seed.id}
+                    className={`flex items-center gap-3 rounded-md border p-2 ${seed.id === selectedSeedId ? 'border-purple-500' : ''}`}
+                    onClick={() => setSelectedSeedId(seed.id)}
+                  >
+                    <span
+                      className="inline-block w-3 h-3 rounded-full shrink-0"
+                      style={{ backgroundColor: seed.mode === 'background' ? 'rgb(239, 68, 68)' : 'rgb(34, 197, 94)' }}
+                    />
+                    <span className="text-xs w-14 shrink-0">{seed.mode === 'background' ? '背景' : '前景'} #{index + 1}</span>
+                    <Slider
+                      min={1}
+                      max={50}
+                      step={1}
+                      value={[seed.tolerance]}
+                      onValueChange={(value) => updateWandSeed(seed.id, { tolerance: value[0] })}
+                      className="flex-1"
+                    />
+                    <span className="text-xs w-10 text-right shrink-0">{seed.tolerance}%</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        deleteWandSeed(seed.id);
+                      }}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
           </Card>
 
           {/* 处理后预览 */}
           <Card className="glass-effect p-6">
-            <h3 className="text-lg font-semibold mb-4">处理结果</h3>
-            <div className="relative aspect-square rounded-lg overflow-hidden checkerboard">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">处理结果</h3>
+              {rawResultImage && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="showRawResult" className="text-sm">显示去色前</Label>
+                  <Switch
+                    id="showRawResult"
+                    checked={showRawResult}
+                    onCheckedChange={setShowRawResult}
+                  />
+                </div>
+              )}
+            </div>
+            {processedImage && (
+              <div className="space-y-3 mb-4">
+                <div className="flex flex-wrap items-center gap-3">
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    value={resultView}
+                    onValueChange={(value) => value && setResultView(value as ResultView)}
+                  >
+                    <ToggleGroupItem value="cutout">抠图</ToggleGroupItem>
+                    <ToggleGroupItem value="wipe">前后对比</ToggleGroupItem>
+                    <ToggleGroupItem value="rubylith">红膜</ToggleGroupItem>
+                    <ToggleGroupItem value="alpha">Alpha</ToggleGroupItem>
+                    <ToggleGroupItem value="confidence">置信度</ToggleGroupItem>
+                    <ToggleGroupItem value="clusters">聚类归属</ToggleGroupItem>
+                  </ToggleGroup>
+                  {resultView === 'cutout' && (
+                    <div className="flex items-center gap-1">
+                      {MATTE_BACKGROUNDS.map(({ value, label }) => (
+                        <button
+                          key={label}
+                          title={label}
+                          className={`w-6 h-6 rounded-md border ${value ? '' : 'checkerboard'} ${
+                            matteBackground === value ? 'ring-2 ring-primary ring-offset-1' : ''
+                          }`}
+                          style={value ? { backgroundColor: value } : undefined}
+                          onClick={() => setMatteBackground(value)}
+                        />
+                      ))}
+                      <input
+                        type="color"
+                        title="自定义底色"
+                        className="w-6 h-6 rounded-md border cursor-pointer"
+                        value={matteBackground ?? '#ffffff'}
+                        onChange={(event) => setMatteBackground(event.target.value)}
+                      />
+                    </div>
+                  )}
+                  {resultView === 'wipe' && (
+                    <p className="text-xs text-muted-foreground">
+                      {resultTool ? '取消选中修补工具后可拖动分割线' : '在图上拖动分割线：左侧为原图，右侧为结果'}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    value={resultTool ?? ''}
+                    onValueChange={(value) => setResultTool(value ? value as ResultTool : null)}
+                  >
+                    <ToggleGroupItem value="erase">擦除</ToggleGroupItem>
+                    <ToggleGroupItem value="restore">恢复</ToggleGroupItem>
+                    <ToggleGroupItem value="polygon">多边形套索</ToggleGroupItem>
+                    <ToggleGroupItem value="freehand">自由套索</ToggleGroupItem>
+                  </ToggleGroup>
+                  {editCount > 0 && (
+                    <Button variant="ghost" size="sm" onClick={clearEdits}>
+                      清除修补
+                    </Button>
+                  )}
+                  {lassoSelections.length > 0 && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => setLassoSelections(prev => prev.slice(0, -1))}>
+                        撤销选区
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setLassoSelections([])}>
+                        清除选区（{lassoSelections.length}）
+                      </Button>
+                    </>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {brushMode
+                      ? '在结果上涂抹，支持手写笔压感'
+                      : lassoTool === 'polygon'
+                        ? '逐点点击，点击起点或双击闭合'
+                        : lassoTool === 'freehand'
+                          ? '按住拖动，松开后自动闭合'
+                          : '选择笔刷或套索手动修补蒙版'}
+                  </p>
+                </div>
+                {lassoTool && (
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    className="justify-start"
+                    value={lassoOperation}
+                    onValueChange={(value) => value && setLassoOperation(value as LassoOperation)}
+                  >
+                    <ToggleGroupItem value="add">添加到主体</ToggleGroupItem>
+                    <ToggleGroupItem value="subtract">从主体减去</ToggleGroupItem>
+                    <ToggleGroupItem value="intersect">与主体相交</ToggleGroupItem>
+                  </ToggleGroup>
+                )}
+                {brushMode && (
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="brushSize" className="text-xs">大小: {brush.size}px</Label>
+                      <Slider
+                        id="brushSize"
+                        min={2}
+                        max={200}
+                        step={1}
+                        value={[brush.size]}
+                        onValueChange={(value) => setBrush(prev => ({ ...prev, size: value[0] }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="brushHardness" className="text-xs">硬度: {Math.round(brush.hardness * 100)}%</Label>
+                      <Slider
+                        id="brushHardness"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={[brush.hardness]}
+                        onValueChange={(value) => setBrush(prev => ({ ...prev, hardness: value[0] }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="brushOpacity" className="text-xs">不透明度: {Math.round(brush.opacity * 100)}%</Label>
+                      <Slider
+                        id="brushOpacity"
+                        min={0.05}
+                        max={1}
+                        step={0.05}
+                        value={[brush.opacity]}
+                        onValueChange={(value) => setBrush(prev => ({ ...prev, opacity: value[0] }))}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+            <ZoomViewport
+              className="checkerboard"
+              imageWidth={imageSize?.width ?? 1}
+              imageHeight={imageSize?.height ?? 1}
+              view={view}
+              onViewChange={setView}
+              onHover={setInspectPoint}
+            >
+              {processedImage && resultView === 'cutout' && matteBackground && imageSize && (
+                <svg
+                  viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                  preserveAspectRatio="xMidYMid meet"
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                >
+                  <rect width={imageSize.width} height={imageSize.height} fill={matteBackground} />
+                </svg>
+              )}
               {processedImage ? (
                 <img
-                  src={processedImage}
+                  src={viewImage ?? (showRawResult && rawResultImage ? rawResultImage : processedImage)}
                   alt="处理后"
-                  className="w-full h-full object-contain"
+                  className="relative w-full h-full object-contain"
                 />
               ) : (
                 <div className="w-full h-full flex items-center justify-center bg-gray-100">
                   <p className="text-muted-foreground">等待处理...</p>
                 </div>
               )}
-            </div>
+              {processedImage && resultView === 'wipe' && imageSize && (
+                <WipeOverlay
+                  imageWidth={imageSize.width}
+                  imageHeight={imageSize.height}
+                  beforeImage={originalImage}
+                  position={wipePosition}
+                  onPositionChange={setWipePosition}
+                />
+              )}
+              {processedImage && brushMode && imageSize && (
+                <MaskBrushOverlay
+                  imageWidth={imageSize.width}
+                  imageHeight={imageSize.height}
+                  mode={brushMode}
+                  brush={brush}
+                  onStrokeEnd={handleBrushStroke}
+                />
+              )}
+              {processedImage && lassoTool && imageSize && (
+                <LassoOverlay
+                  imageWidth={imageSize.width}
+                  imageHeight={imageSize.height}
+                  tool={lassoTool}
+                  operation={lassoOperation}
+                  onSelectionAdd={addLassoSelection}
+                />
+              )}
+            </ZoomViewport>
+            {processedImage && diagnosticView && (
+              <DiagnosticLegend
+                mode={resultView}
+                tolerance={settings.colorTolerance}
+                clusters={paletteClusters}
+                shares={clusterShares}
+              />
+            )}
           </Card>
         </div>
       )}
 
+      {originalImage && (
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          <span className="text-sm text-muted-foreground">
+            缩放: {view.zoom ? `${Math.round(view.zoom * 100)}%` : '适应窗口'}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setView(FIT_VIEW)}>
+            适应窗口
+          </Button>
+          {[1, 4, 16].map((zoom) => (
+            <Button
+              key={zoom}
+              variant="outline"
+              size="sm"
+              disabled={!imageSize}
+              onClick={() => imageSize && setView(prev => ({
+                zoom,
+                centerX: prev.zoom ? prev.centerX : imageSize.width / 2,
+                centerY: prev.zoom ? prev.centerY : imageSize.height / 2
+              }))}
+            >
+              {zoom * 100}%
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {originalImage && (
+        <PixelInspector
+          point={inspectPoint}
+          original={originalData}
+          finalAlpha={finalAlphaRef.current}
+          clusters={paletteClusters}
+          metric={settings.distanceMetric}
+        />
+      )}
+
+      {originalImage && (
+        <HistoryPanel
+          entries={history.entries}
+          position={history.position}
+          onUndo={undo}
+          onRedo={redo}
+          onGoTo={goToHistory}
+        />
+      )}
+
+      {originalImage && settings.backgroundModel === 'palette' && (
+        <BackgroundPalette
+          entries={customPalette ?? paletteClusters}
+          locked={customPalette !== null}
+          onLockedChange={(locked) => setCustomPalette(locked ? paletteClusters : null)}
+          onEntriesChange={setCustomPalette}
+          eyedropperActive={eyedropperTarget === 'background'}
+          onEyedropperChange={(active) => setEyedropperTarget(active ? 'background' : null)}
+          globalTolerance={settings.colorTolerance[1]}
+          profile={METRIC_PROFILES[settings.distanceMetric]}
+        />
+      )}
+
+      {originalImage && settings.backgroundModel === 'palette' && (
+        <DetectorComparison
+          detector={settings.paletteDetector}
+          candidates={detectorCandidates}
+          onCompare={compareDetectors}
+          onDetectorChange={(detector) => setSettings(prev => ({ ...prev, paletteDetector: detector }))}
+          onLock={(clusters, detector) => setCustomPalette(toPaletteEntries(clusters, detector))}
+        />
+      )}
+
+      {originalImage && colorKeyed && (
+        <ProtectedColors
+          colors={protectColors}
+          onColorsChange={setProtectColors}
+          eyedropperActive={eyedropperTarget === 'protect'}
+          onEyedropperChange={(active) => setEyedropperTarget(active ? 'protect' : null)}
+          showOverlay={showProtectedOverlay}
+          onShowOverlayChange={setShowProtectedOverlay}
+          profile={METRIC_PROFILES[settings.distanceMetric]}
+        />
+      )}
+
+      {originalImage && gradientInfo && (
+        <BackgroundGradient
+          preview={gradientInfo.preview}
+          inlierRatio={gradientInfo.inlierRatio}
+          axes={gradientInfo.axes}
+        />
+      )}
+
+      {originalImage && distanceKeyed && toleranceHistogram && (
+        <ToleranceHistogram
+          histogram={toleranceHistogram.histogram}
+          threshold={toleranceHistogram.threshold}
+          tolerance={settings.colorTolerance}
+          auto={settings.autoTolerance}
+        />
+      )}
+
       {originalImage && (
         <Card className="glass-effect p-6">
           <h3 className="text-lg font-semibold mb-4">处理设置</h3>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {distanceKeyed && (
+              <>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="colorTolerance">
+                      颜色容差: {settings.colorTolerance[0]} – {settings.colorTolerance[1]}
+                      {settings.autoTolerance ? '（自动）' : ''}
+                    </Label>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="autoTolerance" className="text-sm">自动</Label>
+                      <Switch
+                        id="autoTolerance"
+                        checked={settings.autoTolerance}
+                        onCheckedChange={(checked) => setSettings(prev => ({ ...prev, autoTolerance: checked }))}
+                      />
+                    </div>
+                  </div>
+                  <Slider
+                    id="colorTolerance"
+                    min={METRIC_PROFILES[settings.distanceMetric].min}
+                    max={METRIC_PROFILES[settings.distanceMetric].max}
+                    step={METRIC_PROFILES[settings.distanceMetric].step}
+                    minStepsBetweenThumbs={0}
+                    value={settings.colorTolerance}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, colorTolerance: [value[0], value[1]], autoTolerance: false }))}
+                    className="w-full"
+                  />
+                  {settings.autoTolerance && (
+                    <Select
+                      value={settings.toleranceMethod}
+                      onValueChange={(value) => setSettings(prev => ({ ...prev, toleranceMethod: value as ToleranceMethod }))}
+                    >
+                      <SelectTrigger id="toleranceMethod">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="valley">谷底检测</SelectItem>
+                        <SelectItem value="otsu">Otsu 最大类间方差</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {settings.autoTolerance
+                      ? '每次运行按距离分布自动选取容差，拖动滑块即转为手动微调'
+                      : '左侧以内完全移除，右侧以外完全保留，中间半透明过渡'}
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  <Label htmlFor="edgeDetection">边缘处理: {settings.edgeDetection}</Label>
+                  <Slider
+                    id="edgeDetection"
+                    min={0}
+                    max={10}
+                    step={1}
+                    value={[settings.edgeDetection]}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, edgeDetection: value[0] }))}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-muted-foreground">值越大检测到的边缘越多、保护范围越宽，0 为关闭</p>
+                </div>
+              </>
+            )}
             <div className="space-y-3">
-              <Label htmlFor="colorTolerance">颜色容差: {settings.colorTolerance}</Label>
+              <Label htmlFor="feathering">边缘羽化: {settings.feathering}px</Label>
               <Slider
-                id="colorTolerance"
-                min={10}
-                max={100}
-                step={5}
-                value={[settings.colorTolerance]}
-                onValueChange={(value) => setSettings(prev => ({ ...prev, colorTolerance: value[0] }))}
+                id="feathering"
+                min={0}
+                max={20}
+                step={0.5}
+                value={[settings.feathering]}
+                onValueChange={(value) => setSettings(prev => ({ ...prev, feathering: value[0] }))}
                 className="w-full"
               />
-              <p className="text-xs text-muted-foreground">值越大，移除的背景范围越广</p>
+              <p className="text-xs text-muted-foreground">在边界两侧按像素距离平滑过渡</p>
             </div>
             <div className="space-y-3">
-              <Label htmlFor="edgeDetection">边缘处理: {settings.edgeDetection}</Label>
+              <Label htmlFor="chokeSpread">收缩/扩展: {settings.chokeSpread > 0 ? '+' : ''}{settings.chokeSpread}px</Label>
               <Slider
-                id="edgeDetection"
-                min={0}
+                id="chokeSpread"
+                min={-10}
                 max={10}
-                step={1}
-                value={[settings.edgeDetection]}
-                onValueChange={(value) => setSettings(prev => ({ ...prev, edgeDetection: value[0] }))}
+                step={0.25}
+                value={[settings.chokeSpread]}
+                onValueChange={(value) => setSettings(prev => ({ ...prev, chokeSpread: value[0] }))}
                 className="w-full"
               />
-              <p className="text-xs text-muted-foreground">保护主体边缘不被误删</p>
+              <p className="text-xs text-muted-foreground">负值向内收缩去除背景残边，正值向外扩展</p>
+            </div>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="mattingEnabled">精细抠图（头发/毛发）</Label>
+                <Switch
+                  id="mattingEnabled"
+                  checked={settings.mattingEnabled}
+                  onCheckedChange={(checked) => setSettings(prev => ({ ...prev, mattingEnabled: checked }))}
+                />
+              </div>
+              {settings.mattingEnabled && (
+                <>
+                  <Label htmlFor="trimapBand">未知带宽度: {settings.trimapBand}px</Label>
+                  <Slider
+                    id="trimapBand"
+                    min={2}
+                    max={40}
+                    step={1}
+                    value={[settings.trimapBand]}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, trimapBand: value[0] }))}
+                    className="w-full"
+                  />
+                </>
+              )}
+              <p className="text-xs text-muted-foreground">在边界附近求解半透明度，带宽应覆盖头发等细节</p>
             </div>
             <div className="space-y-3">
-              <Label htmlFor="feathering">边缘羽化: {settings.feathering}</Label>
+              <Label htmlFor="decontamination">边缘去色: {settings.decontamination}%</Label>
               <Slider
-                id="feathering"
+                id="decontamination"
                 min={0}
-                max={5}
-                step={1}
-                value={[settings.feathering]}
-                onValueChange={(value) => setSettings(prev => ({ ...prev, feathering: value[0] }))}
+                max={100}
+                step={5}
+                value={[settings.decontamination]}
+                onValueChange={(value) => setSettings(prev => ({ ...prev, decontamination: value[0] }))}
                 className="w-full"
               />
-              <p className="text-xs text-muted-foreground">让边缘更自然平滑</p>
+              <p className="text-xs text-muted-foreground">去除半透明边缘残留的背景色，避免换背景后出现光晕</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
+            <div className="space-y-3">
+              <Label htmlFor="distanceMetric">颜色距离</Label>
+              <Select
+                value={settings.distanceMetric}
+                onValueChange={(value) => {
+                  const metric = value as DistanceMetric;
+                  setSettings(prev => ({
+                    ...prev,
+                    distanceMetric: metric,
+                    colorTolerance: [
+                      rescaleTolerance(prev.colorTolerance[0], prev.distanceMetric, metric),
+                      rescaleTolerance(prev.colorTolerance[1], prev.distanceMetric, metric)
+                    ]
+                  }));
+                  // 背景色单独设置的容差同样按滑块范围换算
+                  setCustomPalette(prev => prev && prev.map((entry) => entry.tolerance === null ? entry : {
+                    ...entry,
+                    tolerance: rescaleTolerance(entry.tolerance, settings.distanceMetric, metric)
+                  }));
+                  setProtectColors(prev => prev.map((color) => ({
+                    ...color,
+                    tolerance: rescaleTolerance(color.tolerance, settings.distanceMetric, metric)
+                  })));
+                }}
+              >
+                <SelectTrigger id="distanceMetric">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(METRIC_PROFILES) as DistanceMetric[]).map((metric) => (
+                    <SelectItem key={metric} value={metric}>{METRIC_PROFILES[metric].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">感知度量更接近人眼对颜色差异的判断</p>
             </div>
+            <div className="space-y-3">
+              <Label htmlFor="backgroundModel">背景模型</Label>
+              <Select
+                value={settings.backgroundModel}
+                onValueChange={(value) => setSettings(prev => ({ ...prev, backgroundModel: value as BackgroundModel }))}
+              >
+                <SelectTrigger id="backgroundModel">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="palette">纯色调色板</SelectItem>
+                  <SelectItem value="gradient">渐变背景</SelectItem>
+                  <SelectItem value="grabcut">框选分割（GrabCut）</SelectItem>
+                  <SelectItem value="chromaKey">绿幕/蓝幕色键</SelectItem>
+                  <SelectItem value="cleanPlate">背景板差异</SelectItem>
+                  <SelectItem value="scissors">智能剪刀（边缘吸附）</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">影棚背景从亮到暗渐变时选择渐变背景，复杂背景选择框选分割</p>
+            </div>
+            {settings.backgroundModel === 'grabcut' && (
+              <div className="space-y-3">
+                <Label htmlFor="grabCutIterations">分割迭代次数: {settings.grabCutIterations}</Label>
+                <Slider
+                  id="grabCutIterations"
+                  min={1}
+                  max={10}
+                  step={1}
+                  value={[settings.grabCutIterations]}
+                  onValueChange={(value) => setSettings(prev => ({ ...prev, grabCutIterations: value[0] }))}
+                  className="w-full"
+                />
+                <p className="text-xs text-muted-foreground">再次运行会在上次结果的基础上继续迭代</p>
+              </div>
+            )}
+            {settings.backgroundModel === 'palette' && (
+              <div className="space-y-3">
+                <Label htmlFor="paletteDetector">背景色检测</Label>
+                <Select
+                  value={settings.paletteDetector}
+                  onValueChange={(value) => setSettings(prev => ({ ...prev, paletteDetector: value as PaletteDetector }))}
+                >
+                  <SelectTrigger id="paletteDetector">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="border">边缘采样</SelectItem>
+                    <SelectItem value="histogram">直方图峰值</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">主体占满画面、接触大部分边缘时改用直方图峰值</p>
+              </div>
+            )}
+            {settings.backgroundModel === 'gradient' && (
+              <div className="space-y-3">
+                <Label htmlFor="gradientDegree">渐变曲面</Label>
+                <Select
+                  value={String(settings.gradientDegree)}
+                  onValueChange={(value) => setSettings(prev => ({ ...prev, gradientDegree: Number(value) as GradientDegree }))}
+                >
+                  <SelectTrigger id="gradientDegree">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">平面（线性渐变）</SelectItem>
+                    <SelectItem value="2">二次曲面（暗角）</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">四周变暗的暗角背景需要二次曲面</p>
+              </div>
+            )}
+            {usesSampling && (
+              <>
+                <div className="space-y-3">
+                  <Label>背景采样</Label>
+                  <ToggleGroup
+                    type="multiple"
+                    variant="outline"
+                    size="sm"
+                    className="justify-start"
+                    value={settings.sampleSides}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, sampleSides: value as BorderSide[] }))}
+                  >
+                    {(Object.keys(SIDE_LABELS) as BorderSide[]).map((side) => (
+                      <ToggleGroupItem key={side} value={side}>{SIDE_LABELS[side]}</ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                      variant={sampleDrawing ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setSampleDrawing(prev => !prev)}
+                    >
+                      {sampleDrawing ? '完成绘制' : '绘制采样区域'}
+                    </Button>
+                    {settings.sampleRegions.length > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSettings(prev => ({ ...prev, sampleRegions: [] }))}
+                      >
+                        清除区域（{settings.sampleRegions.length}）
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    主体接触画面边缘时取消对应的边；也可在原图上拖动框出纯背景区域作为采样
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  <Label htmlFor="sampleBand">采样宽度: {settings.sampleBand}px</Label>
+                  <Slider
+                    id="sampleBand"
+                    min={1}
+                    max={50}
+                    step={1}
+                    value={[settings.sampleBand]}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, sampleBand: value[0] }))}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-muted-foreground">从边缘向内采样的深度，背景边缘有噪点或暗角时可适当加宽</p>
+                </div>
+                <div className="space-y-3">
+                  <Label htmlFor="sampleStride">采样间隔: {settings.sampleStride}px</Label>
+                  <Slider
+                    id="sampleStride"
+                    min={1}
+                    max={20}
+                    step={1}
+                    value={[settings.sampleStride]}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, sampleStride: value[0] }))}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-muted-foreground">间隔越小采样越密，大图上可适当加大以加快检测</p>
+                </div>
+              </>
+            )}
+            {settings.backgroundModel === 'cleanPlate' && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="plateAlignment">自动对齐背景板</Label>
+                  <Switch
+                    id="plateAlignment"
+                    checked={settings.plateAlignment}
+                    onCheckedChange={(checked) => setSettings(prev => ({ ...prev, plateAlignment: checked }))}
+                  />
+                </div>
+                {settings.plateAlignment && (
+                  <>
+                    <Label htmlFor="plateMaxShift">最大偏移: {settings.plateMaxShift}px</Label>
+                    <Slider
+                      id="plateMaxShift"
+                      min={2}
+                      max={64}
+                      step={1}
+                      value={[settings.plateMaxShift]}
+                      onValueChange={(value) => setSettings(prev => ({ ...prev, plateMaxShift: value[0] }))}
+                      className="w-full"
+                    />
+                  </>
+                )}
+                <p className="text-xs text-muted-foreground">补偿两次拍摄之间相机的轻微移动</p>
+              </div>
+            )}
+            {settings.backgroundModel === 'chromaKey' && (
+              <>
+                <div className="space-y-3">
+                  <Label htmlFor="keyColor">键色</Label>
+                  <Select
+                    value={settings.keyColor}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, keyColor: value as KeyColor }))}
+                  >
+                    <SelectTrigger id="keyColor">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">自动检测</SelectItem>
+                      <SelectItem value="green">绿幕</SelectItem>
+                      <SelectItem value="blue">蓝幕</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {chromaScreen && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span
+                        className="inline-block w-4 h-4 rounded border"
+                        style={{ backgroundColor: `rgb(${chromaScreen.color.r}, ${chromaScreen.color.g}, ${chromaScreen.color.b})` }}
+                      />
+                      检测到的色相: {Math.round(chromaScreen.hue)}°
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-3">
+                  <Label htmlFor="keyStrength">键值强度: {settings.keyStrength}%</Label>
+                  <Slider
+                    id="keyStrength"
+                    min={50}
+                    max={200}
+                    step={5}
+                    value={[settings.keyStrength]}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, keyStrength: value[0] }))}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-muted-foreground">幕布光照不均、阴影处未移除时调高</p>
+                </div>
+                <div className="space-y-3">
+                  <Label htmlFor="clipRange">黑白裁切: {settings.clipBlack}% – {settings.clipWhite}%</Label>
+                  <Slider
+                    id="clipRange"
+                    min={0}
+                    max={100}
+                    step={1}
+                    minStepsBetweenThumbs={1}
+                    value={[settings.clipBlack, settings.clipWhite]}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, clipBlack: value[0], clipWhite: value[1] }))}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-muted-foreground">低于左侧完全透明，高于右侧完全不透明</p>
+                </div>
+                <div className="space-y-3">
+                  <Label htmlFor="spillSuppression">溢色抑制: {settings.spillSuppression}%</Label>
+                  <Slider
+                    id="spillSuppression"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={[settings.spillSuppression]}
+                    onValueChange={(value) => setSettings(prev => ({ ...prev, spillSuppression: value[0] }))}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-muted-foreground">中和皮肤、头发上反射的绿色或蓝色</p>
+                </div>
+              </>
+            )}
+            {distanceKeyed && (
+              <div className="space-y-3">
+                <Label htmlFor="detectionMode">检测算法</Label>
+                <Select
+                  value={settings.detectionMode}
+                  onValueChange={(value) => setSettings(prev => ({ ...prev, detectionMode: value as DetectionMode }))}
+                >
+                  <SelectTrigger id="detectionMode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="global">全局颜色匹配</SelectItem>
+                    <SelectItem value="floodFill">边缘区域生长</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">区域生长只移除与图片边缘相连的背景</p>
+              </div>
+            )}
+            {distanceKeyed && settings.detectionMode === 'floodFill' && (
+              <>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="removeHoles">移除封闭孔洞</Label>
+                    <Switch
+                      id="removeHoles"
+                      checked={settings.removeHoles}
+                      onCheckedChange={(checked) => setSettings(prev => ({ ...prev, removeHoles: checked }))}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">同时移除被主体包围的背景，例如圆环内部</p>
+                </div>
+                {settings.removeHoles && (
+                  <div className="space-y-3">
+                    <Label htmlFor="holeMinArea">孔洞最小面积: {settings.holeMinArea}%</Label>
+                    <Slider
+                      id="holeMinArea"
+                      min={0}
+                      max={5}
+                      step={0.1}
+                      value={[settings.holeMinArea]}
+                      onValueChange={(value) => setSettings(prev => ({ ...prev, holeMinArea: value[0] }))}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-muted-foreground">小于该面积的封闭区域视为主体的一部分</p>
+                  </div>
+                )}
+              </>
+            )}
           </div>
         </Card>
       )}
@@ -424,9 +2391,29 @@ const BackgroundRemover: React.FC = () => {
         <h4 className="font-semibold mb-2">使用提示：</h4>
         <ul className="text-sm text-muted-foreground space-y-1">
           <li>• 选择背景色单一、对比度高的图片效果最佳</li>
-          <li>• 如果背景没有完全移除，可以调高"颜色容差"参数</li>
-          <li>• 如果主体被误删，可以调低"颜色容差"或调高"边缘处理"</li>
+          <li>• 如果背景没有完全移除，可以调高"颜色容差"参数；拉开两端距离可获得更柔和的边缘</li>
+          <li>• 如果主体被误删，可以调低"颜色容差"或调高"边缘处理"，并打开"显示保护边缘"查看受保护的轮廓</li>
           <li>• 使用"边缘羽化"让切割边缘更自然</li>
+          <li>• 处理结果可切换"前后对比"卷帘、"红膜"（红色为被去除区域）、"Alpha"灰度，或在抠图视图中换上不同底色检查毛边与漏洞</li>
+          <li>• 自动检测的背景色不准时，可在"背景色"中用吸管从原图添加、删除或忽略颜色，并为每种颜色单独设置容差；锁定后重新运行不再重新检测</li>
+          <li>• 主体中有与背景相近的颜色（如浅灰背景上的浅灰商标）时，在"保护色"中用吸管选取，这些颜色始终保留</li>
+          <li>• 商品立在画面底部或人像在肩部被裁切时，在"背景采样"中取消接触主体的边，或绘制只包含背景的采样区域</li>
+          <li>• 主体几乎占满画面时，把"背景色检测"切换为直方图峰值，并可在"检测器对比"中查看两种检测的候选</li>
+          <li>• 开启"自动容差"后，每次运行都会在距离分布的背景峰与主体之间找阈值并回填到滑块；背景与主体颜色差异明显时用谷底检测，分布重叠较多时可改用 Otsu</li>
+          <li>• "置信度"视图按到背景色的距离着色（蓝为背景、黄为过渡带、红为前景）；"聚类归属"显示每个被移除的像素由哪种背景色造成，便于找出需要收紧的背景色</li>
+          <li>• 在预览图上滚动滚轮或双指缩放（最高 3200%），按住空格或鼠标中键拖动平移，两侧视图同步；下方"像素检查"显示光标处的颜色、距离与 alpha</li>
+          <li>• 调整参数、运行和修补都会记入"操作历史"，可用 Ctrl+Z / Ctrl+Shift+Z 撤销或重做</li>
+          <li>• 打开"魔棒点选"后点击原图中未移除的背景，按住 Shift 点击被误删的主体；每个种子的容差可单独调整</li>
+          <li>• 图标、界面截图等需要精确几何边界时，用"多边形套索"或"自由套索"把选区添加到主体、从主体减去或与主体相交</li>
+          <li>• 自动结果个别位置不理想时，用处理结果上方的"擦除/恢复"笔刷修补；修补在调整参数重新运行后仍然保留</li>
+          <li>• 绿幕/蓝幕照片选择"绿幕/蓝幕色键"，用"溢色抑制"去除主体上的反光</li>
+          <li>• 绿幕或蓝幕边缘有色边时，调高"边缘去色"，并用"显示去色前"对比效果</li>
+          <li>• 头发、毛发或运动模糊的主体可开启"精细抠图"，并把未知带调到能覆盖发丝的宽度</li>
+          <li>• 能拍到不含主体的空场景时，选择"背景板差异"并上传背景板，效果远好于从边缘估计背景</li>
+          <li>• 背景杂乱但主体轮廓清晰时选择"智能剪刀"，沿轮廓点击锚点，路径会自动吸附到边缘</li>
+          <li>• 背景复杂时选择"框选分割"，框住主体后运行，再用"标记前景/背景"涂抹修正并继续迭代</li>
+          <li>• 背景有明暗渐变或暗角时，将"背景模型"切换为"渐变背景"，无需把容差调得过高</li>
+          <li>• 主体颜色与背景接近时，将"检测算法"切换为"边缘区域生长"可避免主体被掏空</li>
         </ul>
       </Card>
     </div>
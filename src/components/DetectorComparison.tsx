@@ -0,0 +1,98 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PaletteCluster } from '@/lib/matting/palette';
+import { HistogramPeak } from '@/lib/matting/histogram-peaks';
+
+export type PaletteDetector = 'border' | 'histogram';
+
+interface DetectorComparisonProps {
+  detector: PaletteDetector;
+  // 两种检测器的候选，尚未对比时为 null
+  candidates: { border: PaletteCluster[]; histogram: HistogramPeak[] } | null;
+  onCompare: () => void;
+  onDetectorChange: (detector: PaletteDetector) => void;
+  // 把某一组候选锁定为背景色列表
+  onLock: (clusters: PaletteCluster[], detector: PaletteDetector) => void;
+}
+
+const DETECTOR_LABELS: Record<PaletteDetector, string> = {
+  border: '边缘采样',
+  histogram: '直方图峰值'
+};
+
+const toHex = ({ r, g, b }: PaletteCluster) =>
+  '#' + [r, g, b].map((value) => value.toString(16).padStart(2, '0')).join('');
+
+// 并排对比边缘采样与直方图峰值两种检测器给出的背景色候选
+const DetectorComparison: React.FC<DetectorComparisonProps> = ({
+  detector,
+  candidates,
+  onCompare,
+  onDetectorChange,
+  onLock
+}) => {
+  const renderColumn = (key: PaletteDetector, clusters: (PaletteCluster | HistogramPeak)[]) => (
+    <div key={key} className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-semibold">
+          {DETECTOR_LABELS[key]}
+          {detector === key && <Badge variant="secondary" className="ml-2">当前</Badge>}
+        </h4>
+        <div className="flex items-center gap-1">
+          {detector !== key && (
+            <Button variant="ghost" size="sm" onClick={() => onDetectorChange(key)}>
+              改用此检测
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" disabled={clusters.length === 0} onClick={() => onLock(clusters, key)}>
+            锁定为背景色
+          </Button>
+        </div>
+      </div>
+      {clusters.length === 0 ? (
+        <p className="text-sm text-muted-foreground">没有候选</p>
+      ) : (
+        clusters.map((cluster) => (
+          <div key={toHex(cluster)} className={`flex items-center gap-3 ${cluster.rejected ? 'opacity-50' : ''}`}>
+            <div className="w-8 h-8 rounded-md border shadow-sm" style={{ backgroundColor: toHex(cluster) }} />
+            <div className="text-sm flex-1">
+              <div className="font-mono">{toHex(cluster)}</div>
+              <div className="text-muted-foreground">
+                占比 {(cluster.weight * 100).toFixed(1)}%
+                {'spread' in cluster
+                  ? ` · 分布 ${(cluster.spread * 100).toFixed(0)}%`
+                  : ` · ${cluster.sides} 条边`}
+              </div>
+            </div>
+            {cluster.rejected && <Badge variant="outline">疑似主体</Badge>}
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <Card className="glass-effect p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">检测器对比</h3>
+        <Button variant="outline" size="sm" onClick={onCompare}>
+          {candidates ? '重新对比' : '对比两种检测'}
+        </Button>
+      </div>
+      {candidates ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {renderColumn('border', candidates.border)}
+          {renderColumn('histogram', candidates.histogram)}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          主体占满画面、接触大部分边缘时，边缘采样会把主体颜色当作背景；直方图峰值按颜色在整幅图中的占比与分布广度挑选背景色
+        </p>
+      )}
+    </Card>
+  );
+};
+
+export default DetectorComparison;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { PaletteEntry } from '@/lib/matting/palette';
+import { CLUSTER_COLORS, HEAT_STOPS } from '@/lib/matting/overlay';
+
+interface DiagnosticLegendProps {
+  mode: 'confidence' | 'clusters';
+  tolerance: [number, number];
+  clusters: PaletteEntry[];
+  // 各聚类造成的移除占比，尚未计算时为 null
+  shares: number[] | null;
+}
+
+const rgb = ([r, g, b]: [number, number, number]) => `rgb(${r}, ${g}, ${b})`;
+
+// 诊断视图的图例：热力图色带与容差刻度，或各聚类的区分色及其移除占比
+const DiagnosticLegend: React.FC<DiagnosticLegendProps> = ({ mode, tolerance, clusters, shares }) => {
+  if (clusters.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground mt-3">诊断视图仅适用于"调色板"背景模型，请先用该模型运行一次</p>
+    );
+  }
+
+  if (mode === 'confidence') {
+    return (
+      <div className="mt-3 space-y-1">
+        <div
+          className="h-3 rounded"
+          style={{ background: `linear-gradient(to right, ${HEAT_STOPS.map(rgb).join(', ')})` }}
+        />
+        <div className="relative h-4 text-xs text-muted-foreground">
+          <span className="absolute left-0">确定背景</span>
+          <span className="absolute left-1/4 -translate-x-1/2">{tolerance[0]}</span>
+          <span className="absolute left-1/2 -translate-x-1/2">过渡带</span>
+          <span className="absolute left-3/4 -translate-x-1/2">{tolerance[1]}</span>
+          <span className="absolute right-0">确定前景</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 flex flex-wrap gap-4 text-sm">
+      {clusters.map((cluster, index) => (
+        <div key={cluster.id} className={`flex items-center gap-2 ${cluster.rejected ? 'opacity-50' : ''}`}>
+          <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: rgb(CLUSTER_COLORS[index % CLUSTER_COLORS.length]) }} />
+          <span
+            className="inline-block w-5 h-5 rounded-md border shadow-sm"
+            style={{ backgroundColor: `rgb(${cluster.r}, ${cluster.g}, ${cluster.b})` }}
+          />
+          <span className="font-mono text-muted-foreground">
+            {cluster.rejected ? '已忽略' : shares ? `${(shares[index] * 100).toFixed(1)}%` : '—'}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DiagnosticLegend;
@@ -0,0 +1,35 @@
+import React, { useRef } from 'react';
+
+interface EyedropperOverlayProps {
+  imageWidth: number;
+  imageHeight: number;
+  onPick: (x: number, y: number) => void;
+}
+
+// 吸管：点击原图取色，坐标换算为原图像素后交给上层
+const EyedropperOverlay: React.FC<EyedropperOverlayProps> = ({ imageWidth, imageHeight, onPick }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    const x = Math.floor(point.x);
+    const y = Math.floor(point.y);
+    if (x < 0 || y < 0 || x >= imageWidth || y >= imageHeight) return;
+    onPick(x, y);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+      onClick={handleClick}
+    />
+  );
+};
+
+export default EyedropperOverlay;
@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { MaskStroke, Rect } from '@/lib/matting/grabcut';
+
+export type GrabCutTool = 'rect' | 'foreground' | 'background';
+
+interface GrabCutOverlayProps {
+  imageWidth: number;
+  imageHeight: number;
+  tool: GrabCutTool;
+  rect: Rect | null;
+  strokes: MaskStroke[];
+  brushRadius: number;
+  onRectChange: (rect: Rect) => void;
+  onStrokeAdd: (stroke: MaskStroke) => void;
+}
+
+const STROKE_COLORS: Record<MaskStroke['mode'], string> = {
+  foreground: 'rgba(34, 197, 94, 0.7)',
+  background: 'rgba(239, 68, 68, 0.7)'
+};
+
+// 覆盖在原图预览上的 SVG：viewBox 与原图尺寸一致，和 object-contain 的图片完全对齐
+const GrabCutOverlay: React.FC<GrabCutOverlayProps> = ({
+  imageWidth,
+  imageHeight,
+  tool,
+  rect,
+  strokes,
+  brushRadius,
+  onRectChange,
+  onStrokeAdd
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragStart, setDragStart] = useState<[number, number] | null>(null);
+  const [draftRect, setDraftRect] = useState<Rect | null>(null);
+  const [draftStroke, setDraftStroke] = useState<MaskStroke | null>(null);
+
+  // 屏幕坐标转换为原图像素坐标
+  const toImagePoint = (event: React.PointerEvent): [number, number] => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return [0, 0];
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return [
+      Math.min(imageWidth, Math.max(0, point.x)),
+      Math.min(imageHeight, Math.max(0, point.y))
+    ];
+  };
+
+  const rectFrom = ([x0, y0]: [number, number], [x1, y1]: [number, number]): Rect => ({
+    x: Math.min(x0, x1),
+    y: Math.min(y0, y1),
+    width: Math.abs(x1 - x0),
+    height: Math.abs(y1 - y0)
+  });
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toImagePoint(event);
+    if (tool === 'rect') {
+      setDragStart(point);
+      setDraftRect(rectFrom(point, point));
+    } else {
+      setDraftStroke({ mode: tool, radius: brushRadius, points: [point] });
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toImagePoint(event);
+    if (dragStart) {
+      setDraftRect(rectFrom(dragStart, point));
+    } else if (draftStroke) {
+      setDraftStroke({ ...draftStroke, points: [...draftStroke.points, point] });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (draftRect && draftRect.width > 2 && draftRect.height > 2) {
+      onRectChange(draftRect);
+    }
+    if (draftStroke) {
+      onStrokeAdd(draftStroke);
+    }
+    setDragStart(null);
+    setDraftRect(null);
+    setDraftStroke(null);
+  };
+
+  const shownRect = draftRect ?? rect;
+  const shownStrokes = draftStroke ? [...strokes, draftStroke] : strokes;
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {shownStrokes.map((stroke, index) => (
+        <polyline
+          key={index}
+          points={stroke.points.map(([x, y]) => `${x},${y}`).join(' ')}
+          fill="none"
+          stroke={STROKE_COLORS[stroke.mode]}
+          strokeWidth={stroke.radius * 2}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ))}
+      {shownRect && (
+        <rect
+          x={shownRect.x}
+          y={shownRect.y}
+          width={shownRect.width}
+          height={shownRect.height}
+          fill="rgba(124, 58, 237, 0.08)"
+          stroke="rgb(124, 58, 237)"
+          strokeWidth={2}
+          strokeDasharray="8 4"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
+
+export default GrabCutOverlay;
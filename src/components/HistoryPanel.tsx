@@ -0,0 +1,60 @@
+import React from 'react';
+import { Redo2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { HistoryEntry } from '@/hooks/use-history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  // 已生效的记录条数
+  position: number;
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoTo: (position: number) => void;
+}
+
+// 操作历史：点击某一步回到该步完成后的状态，之后的步骤显示为灰色，可重做
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, position, onUndo, onRedo, onGoTo }) => {
+  return (
+    <Card className="glass-effect p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">操作历史</h3>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" disabled={position === 0} onClick={onUndo}>
+            <Undo2 className="w-4 h-4 mr-1" />
+            撤销
+          </Button>
+          <Button variant="outline" size="sm" disabled={position === entries.length} onClick={onRedo}>
+            <Redo2 className="w-4 h-4 mr-1" />
+            重做
+          </Button>
+        </div>
+      </div>
+      <ol className="max-h-48 overflow-y-auto space-y-1 text-sm">
+        <li>
+          <button
+            className={`w-full text-left rounded px-2 py-1 hover:bg-muted ${position === 0 ? 'bg-muted font-medium' : ''}`}
+            onClick={() => onGoTo(0)}
+          >
+            初始状态
+          </button>
+        </li>
+        {entries.map((entry, index) => (
+          <li key={entry.id}>
+            <button
+              className={`w-full text-left rounded px-2 py-1 hover:bg-muted ${
+                index + 1 === position ? 'bg-muted font-medium' : index >= position ? 'text-muted-foreground' : ''
+              }`}
+              onClick={() => onGoTo(index + 1)}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+      <p className="text-xs text-muted-foreground mt-3">Ctrl+Z 撤销，Ctrl+Shift+Z 重做</p>
+    </Card>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { LassoOperation, LassoTool } from '@/lib/matting/lasso';
+import { Point } from '@/lib/matting/polygon';
+
+interface LassoOverlayProps {
+  imageWidth: number;
+  imageHeight: number;
+  tool: LassoTool;
+  operation: LassoOperation;
+  onSelectionAdd: (points: Point[]) => void;
+}
+
+const OPERATION_COLORS: Record<LassoOperation, string> = {
+  add: 'rgb(34, 197, 94)',
+  subtract: 'rgb(239, 68, 68)',
+  intersect: 'rgb(59, 130, 246)'
+};
+
+// 覆盖在处理结果上的套索层：多边形逐点点击、点击起点或双击闭合；自由套索按住拖动、松开闭合
+const LassoOverlay: React.FC<LassoOverlayProps> = ({
+  imageWidth,
+  imageHeight,
+  tool,
+  operation,
+  onSelectionAdd
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draft, setDraft] = useState<Point[]>([]);
+  const [drawing, setDrawing] = useState(false);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const markerRadius = Math.max(imageWidth, imageHeight) / 150;
+
+  // 屏幕坐标转换为原图坐标，保留小数以免缩放后丢失精度
+  const toImagePoint = (event: React.PointerEvent | React.MouseEvent): Point => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return [0, 0];
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return [
+      Math.min(imageWidth, Math.max(0, point.x)),
+      Math.min(imageHeight, Math.max(0, point.y))
+    ];
+  };
+
+  // 双击闭合时连续两次按下会在同一位置留下重复顶点，闭合前去掉与前一个顶点重合的点
+  const dropDuplicates = (points: Point[]) => points.filter((point, index) =>
+    index === 0 || Math.hypot(point[0] - points[index - 1][0], point[1] - points[index - 1][1]) > markerRadius);
+
+  const commit = (points: Point[]) => {
+    if (points.length >= 3) onSelectionAdd(points);
+    setDraft([]);
+    setDrawing(false);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toImagePoint(event);
+    if (tool === 'freehand') {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDraft([point]);
+      setDrawing(true);
+      return;
+    }
+
+    if (draft.length >= 3 && Math.hypot(point[0] - draft[0][0], point[1] - draft[0][1]) <= markerRadius * 2) {
+      commit(draft);
+    } else {
+      setDraft([...draft, point]);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toImagePoint(event);
+    setCursor(point);
+    if (tool === 'freehand' && drawing) {
+      setDraft([...draft, point]);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (tool === 'freehand' && drawing) commit(draft);
+  };
+
+  const shown = tool === 'polygon' && cursor && draft.length > 0 ? [...draft, cursor] : draft;
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setCursor(null)}
+      onDoubleClick={() => tool === 'polygon' && commit(dropDuplicates(draft))}
+    >
+      {shown.length > 1 && (
+        <polygon
+          points={shown.map(([x, y]) => `${x},${y}`).join(' ')}
+          fill={OPERATION_COLORS[operation]}
+          fillOpacity={0.15}
+          stroke={OPERATION_COLORS[operation]}
+          strokeWidth={1.5}
+          strokeDasharray="6 3"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      {tool === 'polygon' && draft.map(([x, y], index) => (
+        <circle
+          key={index}
+          cx={x}
+          cy={y}
+          r={markerRadius}
+          fill={index === 0 ? OPERATION_COLORS[operation] : 'white'}
+          stroke={OPERATION_COLORS[operation]}
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default LassoOverlay;
@@ -0,0 +1,136 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { LiveWireGraph, LiveWirePath, shortestPathTree, tracePath } from '@/lib/matting/live-wire';
+import { Point } from '@/lib/matting/polygon';
+
+interface LiveWireOverlayProps {
+  imageWidth: number;
+  imageHeight: number;
+  graph: LiveWireGraph;
+  path: LiveWirePath;
+  onPathChange: (path: LiveWirePath) => void;
+}
+
+// 覆盖在原图预览上的智能剪刀层：点击放置锚点，锚点之间的路径自动吸附到边缘；点击起点或双击闭合
+const LiveWireOverlay: React.FC<LiveWireOverlayProps> = ({
+  imageWidth,
+  imageHeight,
+  graph,
+  path,
+  onPathChange
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const markerRadius = Math.max(imageWidth, imageHeight) / 150;
+  const lastAnchor = path.closed ? null : path.anchors[path.anchors.length - 1] ?? null;
+
+  // 每放置一个锚点重新求一次最短路径树，之后移动鼠标只需回溯
+  const parents = useMemo(
+    () => lastAnchor ? shortestPathTree(graph, lastAnchor) : null,
+    [graph, lastAnchor]
+  );
+  const livePath = parents && cursor ? tracePath(graph, parents, cursor) : null;
+
+  // 屏幕坐标转换为原图像素坐标
+  const toImagePoint = (event: React.PointerEvent | React.MouseEvent): Point => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return [0, 0];
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return [
+      Math.min(imageWidth - 1, Math.max(0, point.x)),
+      Math.min(imageHeight - 1, Math.max(0, point.y))
+    ];
+  };
+
+  const closePath = () => {
+    if (!parents || path.anchors.length < 3) return;
+    onPathChange({
+      anchors: path.anchors,
+      segments: [...path.segments, tracePath(graph, parents, path.anchors[0])],
+      closed: true
+    });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (path.closed) return;
+    const point = toImagePoint(event);
+
+    if (!parents) {
+      onPathChange({ anchors: [point], segments: [], closed: false });
+      return;
+    }
+
+    const [sx, sy] = path.anchors[0];
+    if (path.anchors.length >= 3 && Math.hypot(point[0] - sx, point[1] - sy) <= markerRadius * 2) {
+      closePath();
+      return;
+    }
+
+    // 双击的第二次按下落在刚放置的锚点上，忽略以免产生重复锚点和零长度路径
+    const [lx, ly] = path.anchors[path.anchors.length - 1];
+    if (Math.hypot(point[0] - lx, point[1] - ly) <= markerRadius) return;
+
+    onPathChange({
+      anchors: [...path.anchors, point],
+      segments: [...path.segments, tracePath(graph, parents, point)],
+      closed: false
+    });
+  };
+
+  const toPoints = (points: Point[]) => points.map(([x, y]) => `${x},${y}`).join(' ');
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={(event) => setCursor(toImagePoint(event))}
+      onPointerLeave={() => setCursor(null)}
+      onDoubleClick={closePath}
+    >
+      {path.closed && (
+        <polygon
+          points={toPoints(path.segments.flat())}
+          fill="rgba(124, 58, 237, 0.15)"
+          stroke="none"
+        />
+      )}
+      {path.segments.map((segment, index) => (
+        <polyline
+          key={index}
+          points={toPoints(segment)}
+          fill="none"
+          stroke="rgb(124, 58, 237)"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+      {livePath && (
+        <polyline
+          points={toPoints(livePath)}
+          fill="none"
+          stroke="rgb(250, 204, 21)"
+          strokeWidth={2}
+          strokeDasharray="6 3"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      {path.anchors.map(([x, y], index) => (
+        <circle
+          key={index}
+          cx={x}
+          cy={y}
+          r={markerRadius}
+          fill={index === 0 ? 'rgb(124, 58, 237)' : 'white'}
+          stroke="rgb(124, 58, 237)"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default LiveWireOverlay;
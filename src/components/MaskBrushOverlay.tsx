@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { BrushMode, BrushPoint, BrushSettings, BrushStroke } from '@/lib/matting/mask-brush';
+
+interface MaskBrushOverlayProps {
+  imageWidth: number;
+  imageHeight: number;
+  mode: BrushMode;
+  brush: BrushSettings;
+  onStrokeEnd: (stroke: BrushStroke) => void;
+}
+
+const BRUSH_COLORS: Record<BrushMode, string> = {
+  erase: 'rgb(239, 68, 68)',
+  restore: 'rgb(34, 197, 94)'
+};
+
+// 覆盖在处理结果上的 SVG 笔刷层：绘制中的一笔以半透明色块预览，松开后交给上层写入编辑层
+const MaskBrushOverlay: React.FC<MaskBrushOverlayProps> = ({
+  imageWidth,
+  imageHeight,
+  mode,
+  brush,
+  onStrokeEnd
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draftStroke, setDraftStroke] = useState<BrushStroke | null>(null);
+  const [cursor, setCursor] = useState<BrushPoint | null>(null);
+
+  // 屏幕坐标转换为原图像素坐标；鼠标没有压感，按满压力处理
+  const toBrushPoint = (event: React.PointerEvent): BrushPoint => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return [0, 0, 1];
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    const pressure = event.pointerType === 'mouse' || event.pressure === 0 ? 1 : event.pressure;
+    return [point.x, point.y, pressure];
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toBrushPoint(event);
+    setDraftStroke({ ...brush, mode, points: [point] });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toBrushPoint(event);
+    setCursor(point);
+    if (draftStroke) {
+      setDraftStroke({ ...draftStroke, points: [...draftStroke.points, point] });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (draftStroke) {
+      onStrokeEnd(draftStroke);
+    }
+    setDraftStroke(null);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="absolute inset-0 w-full h-full cursor-none touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setCursor(null)}
+    >
+      {draftStroke && (
+        <g
+          fill={BRUSH_COLORS[draftStroke.mode]}
+          stroke={BRUSH_COLORS[draftStroke.mode]}
+          strokeLinecap="round"
+          opacity={0.3 + 0.4 * draftStroke.opacity}
+        >
+          <circle
+            cx={draftStroke.points[0][0]}
+            cy={draftStroke.points[0][1]}
+            r={draftStroke.size / 2 * draftStroke.points[0][2]}
+            stroke="none"
+          />
+          {draftStroke.points.slice(1).map(([x, y, pressure], index) => (
+            <line
+              key={index}
+              x1={draftStroke.points[index][0]}
+              y1={draftStroke.points[index][1]}
+              x2={x}
+              y2={y}
+              strokeWidth={draftStroke.size * pressure}
+            />
+          ))}
+        </g>
+      )}
+      {cursor && (
+        <circle
+          cx={cursor[0]}
+          cy={cursor[1]}
+          r={brush.size / 2 * cursor[2]}
+          fill="none"
+          stroke={BRUSH_COLORS[mode]}
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
+
+export default MaskBrushOverlay;
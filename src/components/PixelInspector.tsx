@@ -0,0 +1,75 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { DistanceMetric, METRIC_PROFILES, getColorDistance } from '@/lib/matting/color';
+import { PaletteCluster } from '@/lib/matting/palette';
+
+interface PixelInspectorProps {
+  // 光标下的原图坐标
+  point: [number, number] | null;
+  original: ImageData | null;
+  // 最终 alpha（0–1），尚未处理时为 null
+  finalAlpha: Float32Array | null;
+  clusters: PaletteCluster[];
+  metric: DistanceMetric;
+}
+
+const swatchStyle = (r: number, g: number, b: number) => ({ backgroundColor: `rgb(${r}, ${g}, ${b})` });
+
+// 像素检查：光标下像素的原始 RGBA、到各背景色的距离与最终 alpha
+const PixelInspector: React.FC<PixelInspectorProps> = ({ point, original, finalAlpha, clusters, metric }) => {
+  if (!point || !original) {
+    return (
+      <Card className="glass-effect p-4">
+        <h4 className="font-semibold mb-1">像素检查</h4>
+        <p className="text-sm text-muted-foreground">将鼠标移到预览图上查看像素信息</p>
+      </Card>
+    );
+  }
+
+  const [x, y] = point;
+  const index = y * original.width + x;
+  const [r, g, b, a] = original.data.subarray(index * 4, index * 4 + 4);
+  const alpha = finalAlpha?.[index];
+  const colorDistance = getColorDistance(metric);
+  const distances = clusters.map((cluster) => colorDistance(r, g, b, cluster.r, cluster.g, cluster.b));
+  const nearest = distances.length > 0 ? distances.indexOf(Math.min(...distances)) : -1;
+
+  return (
+    <Card className="glass-effect p-4">
+      <h4 className="font-semibold mb-3">像素检查</h4>
+      <div className="flex flex-wrap gap-6 text-sm">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-md border shadow-sm" style={swatchStyle(r, g, b)} />
+          <div>
+            <div className="font-mono">({x}, {y})</div>
+            <div className="font-mono text-muted-foreground">RGBA {r}, {g}, {b}, {a}</div>
+          </div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">最终 alpha</div>
+          <div className="font-mono">{alpha === undefined ? '—' : `${(alpha * 100).toFixed(1)}%`}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">到背景色的距离（{METRIC_PROFILES[metric].label}）</div>
+          {clusters.length === 0 ? (
+            <div className="font-mono">—</div>
+          ) : (
+            <div className="flex flex-wrap gap-3 mt-1">
+              {clusters.map((cluster, i) => (
+                <div
+                  key={i}
+                  className={`flex items-center gap-1 font-mono ${i === nearest ? 'font-semibold' : ''} ${cluster.rejected ? 'opacity-50' : ''}`}
+                >
+                  <span className="inline-block w-3 h-3 rounded-sm border" style={swatchStyle(cluster.r, cluster.g, cluster.b)} />
+                  {distances[i].toFixed(1)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default PixelInspector;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Pipette, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { MetricProfile, RGB } from '@/lib/matting/color';
+import { ProtectedColor } from '@/lib/matting/protect';
+
+interface ProtectedColorsProps {
+  colors: ProtectedColor[];
+  onColorsChange: (colors: ProtectedColor[]) => void;
+  eyedropperActive: boolean;
+  onEyedropperChange: (active: boolean) => void;
+  showOverlay: boolean;
+  onShowOverlayChange: (show: boolean) => void;
+  profile: MetricProfile;
+}
+
+const toHex = ({ r, g, b }: RGB) =>
+  '#' + [r, g, b].map((value) => value.toString(16).padStart(2, '0')).join('');
+
+// 保护色列表：用吸管从原图选取不允许被去除的颜色（如与背景相近的商标色），每种颜色单独设置容差
+const ProtectedColors: React.FC<ProtectedColorsProps> = ({
+  colors,
+  onColorsChange,
+  eyedropperActive,
+  onEyedropperChange,
+  showOverlay,
+  onShowOverlayChange,
+  profile
+}) => {
+  return (
+    <Card className="glass-effect p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold">保护色</h3>
+        <div className="flex items-center gap-4">
+          <Button
+            variant={eyedropperActive ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onEyedropperChange(!eyedropperActive)}
+          >
+            <Pipette className="w-4 h-4 mr-1" />
+            吸管
+          </Button>
+          {colors.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="showProtectedOverlay" className="text-sm">显示保护区域</Label>
+              <Switch id="showProtectedOverlay" checked={showOverlay} onCheckedChange={onShowOverlayChange} />
+            </div>
+          )}
+        </div>
+      </div>
+      {colors.length === 0 ? (
+        <p className="text-sm text-muted-foreground">与保护色接近的像素始终保留，不会被当作背景去除</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {colors.map((color) => (
+            <div key={color.id} className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-md border shadow-sm" style={{ backgroundColor: toHex(color) }} />
+              <div className="flex-1 space-y-2">
+                <div className="font-mono text-sm">{toHex(color)}</div>
+                <div className="flex items-center gap-3">
+                  <Label className="text-xs whitespace-nowrap">容差: {color.tolerance}</Label>
+                  <Slider
+                    min={profile.min}
+                    max={profile.max}
+                    step={profile.step}
+                    value={[color.tolerance]}
+                    onValueChange={(value) => onColorsChange(colors.map((other) =>
+                      other.id === color.id ? { ...other, tolerance: value[0] } : other
+                    ))}
+                    className="flex-1"
+                  />
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onColorsChange(colors.filter((other) => other.id !== color.id))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      {eyedropperActive && (
+        <p className="text-xs text-muted-foreground mt-4">在原图上点击需要保护的颜色，可连续点选</p>
+      )}
+    </Card>
+  );
+};
+
+export default ProtectedColors;
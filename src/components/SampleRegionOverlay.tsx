@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { Rect } from '@/lib/matting/grabcut';
+import { BorderSide } from '@/lib/matting/sampling';
+
+interface SampleRegionOverlayProps {
+  imageWidth: number;
+  imageHeight: number;
+  sides: BorderSide[];
+  bandWidth: number;
+  regions: Rect[];
+  onRegionAdd: (region: Rect) => void;
+}
+
+// 采样范围：半透明色带标出参与采样的边，虚线框为自定义采样区域，拖动即可新增区域
+const SampleRegionOverlay: React.FC<SampleRegionOverlayProps> = ({
+  imageWidth,
+  imageHeight,
+  sides,
+  bandWidth,
+  regions,
+  onRegionAdd
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragStart, setDragStart] = useState<[number, number] | null>(null);
+  const [draftRegion, setDraftRegion] = useState<Rect | null>(null);
+
+  const toImagePoint = (event: React.PointerEvent): [number, number] => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return [0, 0];
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return [
+      Math.min(imageWidth, Math.max(0, point.x)),
+      Math.min(imageHeight, Math.max(0, point.y))
+    ];
+  };
+
+  const rectFrom = ([x0, y0]: [number, number], [x1, y1]: [number, number]): Rect => ({
+    x: Math.round(Math.min(x0, x1)),
+    y: Math.round(Math.min(y0, y1)),
+    width: Math.round(Math.abs(x1 - x0)),
+    height: Math.round(Math.abs(y1 - y0))
+  });
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toImagePoint(event);
+    setDragStart(point);
+    setDraftRegion(rectFrom(point, point));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragStart) setDraftRegion(rectFrom(dragStart, toImagePoint(event)));
+  };
+
+  const handlePointerUp = () => {
+    if (draftRegion && draftRegion.width > 2 && draftRegion.height > 2) {
+      onRegionAdd(draftRegion);
+    }
+    setDragStart(null);
+    setDraftRegion(null);
+  };
+
+  const band = Math.min(bandWidth, imageWidth / 2, imageHeight / 2);
+  const bands: Record<BorderSide, Rect> = {
+    top: { x: 0, y: 0, width: imageWidth, height: band },
+    bottom: { x: 0, y: imageHeight - band, width: imageWidth, height: band },
+    left: { x: 0, y: 0, width: band, height: imageHeight },
+    right: { x: imageWidth - band, y: 0, width: band, height: imageHeight }
+  };
+  const shownRegions = draftRegion ? [...regions, draftRegion] : regions;
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {sides.map((side) => (
+        <rect
+          key={side}
+          {...bands[side]}
+          fill="rgba(245, 158, 11, 0.35)"
+          stroke="rgb(245, 158, 11)"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+      {shownRegions.map((region, index) => (
+        <rect
+          key={index}
+          {...region}
+          fill="rgba(245, 158, 11, 0.15)"
+          stroke="rgb(245, 158, 11)"
+          strokeWidth={2}
+          strokeDasharray="8 4"
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+};
+
+export default SampleRegionOverlay;
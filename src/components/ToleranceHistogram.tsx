@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { DistanceHistogram } from '@/lib/matting/auto-tolerance';
+
+interface ToleranceHistogramProps {
+  histogram: DistanceHistogram;
+  // 自动检测得到的阈值
+  threshold: number;
+  // 当前使用的 [内侧, 外侧] 容差
+  tolerance: [number, number];
+  auto: boolean;
+}
+
+const chartConfig = {
+  count: { label: '像素数', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+// 到背景距离的直方图：左侧的高峰是背景，右侧是主体，标出自动阈值与当前的内外侧容差
+const ToleranceHistogram: React.FC<ToleranceHistogramProps> = ({ histogram, threshold, tolerance, auto }) => {
+  const data = useMemo(
+    () => histogram.counts.map((count, i) => ({
+      distance: Number(((i + 0.5) * histogram.binWidth).toFixed(2)),
+      count
+    })),
+    [histogram]
+  );
+  const total = histogram.counts.reduce((sum, count) => sum + count, histogram.overflow);
+  const range = histogram.binWidth * histogram.counts.length;
+
+  return (
+    <Card className="glass-effect p-6">
+      <h3 className="text-lg font-semibold mb-4">距离分布</h3>
+      <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+        <AreaChart data={data} margin={{ top: 16, right: 12, left: 12, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="distance" type="number" domain={[0, range]} tickLine={false} axisLine={false} />
+          {/* 背景峰通常远高于其余部分，用平方根刻度让主体一侧也看得清 */}
+          <YAxis scale="sqrt" domain={[0, 'auto']} hide />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `距离 ${payload[0]?.payload.distance}`} />} />
+          <Area
+            dataKey="count"
+            type="step"
+            fill="var(--color-count)"
+            fillOpacity={0.3}
+            stroke="var(--color-count)"
+            isAnimationActive={false}
+          />
+          <ReferenceLine x={tolerance[0]} stroke="rgb(59, 130, 246)" strokeDasharray="4 4" />
+          <ReferenceLine x={tolerance[1]} stroke="rgb(59, 130, 246)" strokeDasharray="4 4" />
+          <ReferenceLine
+            x={threshold}
+            stroke="rgb(239, 68, 68)"
+            strokeWidth={2}
+            label={{ value: '阈值', position: 'top', fill: 'rgb(239, 68, 68)', fontSize: 12 }}
+          />
+        </AreaChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground mt-2">
+        红线为{auto ? '本次自动选用的' : '建议的'}阈值 {threshold.toFixed(1)}，蓝色虚线为内外侧容差；
+        另有 {total > 0 ? ((histogram.overflow / total) * 100).toFixed(1) : 0}% 的像素距离超过 {range}，未画出
+      </p>
+    </Card>
+  );
+};
+
+export default ToleranceHistogram;
@@ -0,0 +1,103 @@
+import React, { useRef, useState } from 'react';
+import { SeedMode, WandSeed } from '@/lib/matting/magic-wand';
+
+interface WandSeedOverlayProps {
+  imageWidth: number;
+  imageHeight: number;
+  seeds: WandSeed[];
+  selectedId: number | null;
+  onSeedAdd: (x: number, y: number, mode: SeedMode) => void;
+  onSeedMove: (id: number, x: number, y: number) => void;
+  onSeedSelect: (id: number) => void;
+}
+
+const SEED_COLORS: Record<SeedMode, string> = {
+  background: 'rgb(239, 68, 68)',
+  foreground: 'rgb(34, 197, 94)'
+};
+
+// 原图上的魔棒种子层：点击空白处添加种子（按住 Shift 为前景），拖动种子可移动位置
+const WandSeedOverlay: React.FC<WandSeedOverlayProps> = ({
+  imageWidth,
+  imageHeight,
+  seeds,
+  selectedId,
+  onSeedAdd,
+  onSeedMove,
+  onSeedSelect
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<{ id: number; x: number; y: number; moved: boolean } | null>(null);
+  const markerRadius = Math.max(imageWidth, imageHeight) / 80;
+
+  // 屏幕坐标转换为原图像素坐标
+  const toImagePoint = (event: React.PointerEvent): [number, number] => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return [0, 0];
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return [
+      Math.min(imageWidth - 1, Math.max(0, Math.round(point.x))),
+      Math.min(imageHeight - 1, Math.max(0, Math.round(point.y)))
+    ];
+  };
+
+  const handleSeedPointerDown = (event: React.PointerEvent<SVGCircleElement>, seed: WandSeed) => {
+    event.stopPropagation();
+    svgRef.current?.setPointerCapture(event.pointerId);
+    onSeedSelect(seed.id);
+    setDragging({ id: seed.id, x: seed.x, y: seed.y, moved: false });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const [x, y] = toImagePoint(event);
+    onSeedAdd(x, y, event.shiftKey ? 'foreground' : 'background');
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragging) return;
+    const [x, y] = toImagePoint(event);
+    setDragging({ ...dragging, x, y, moved: true });
+  };
+
+  const handlePointerUp = () => {
+    if (dragging?.moved) {
+      onSeedMove(dragging.id, dragging.x, dragging.y);
+    }
+    setDragging(null);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {seeds.map((seed) => {
+        const position = dragging?.id === seed.id ? dragging : seed;
+        return (
+          <circle
+            key={seed.id}
+            cx={position.x}
+            cy={position.y}
+            r={markerRadius}
+            fill={SEED_COLORS[seed.mode]}
+            fillOpacity={0.6}
+            stroke="white"
+            strokeWidth={seed.id === selectedId ? 3 : 1.5}
+            vectorEffect="non-scaling-stroke"
+            className="cursor-move"
+            onPointerDown={(event) => handleSeedPointerDown(event, seed)}
+          />
+        );
+      })}
+    </svg>
+  );
+};
+
+export default WandSeedOverlay;
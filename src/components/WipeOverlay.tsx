@@ -0,0 +1,79 @@
+import React, { useRef } from 'react';
+
+interface WipeOverlayProps {
+  imageWidth: number;
+  imageHeight: number;
+  // 处理前的原图
+  beforeImage: string;
+  // 分割线位置，占图片宽度的比例
+  position: number;
+  onPositionChange: (position: number) => void;
+}
+
+// 前后对比卷帘：分割线左侧显示原图，右侧露出下层的处理结果；在图上任意位置按下拖动即可移动分割线
+const WipeOverlay: React.FC<WipeOverlayProps> = ({
+  imageWidth,
+  imageHeight,
+  beforeImage,
+  position,
+  onPositionChange
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const draggingRef = useRef(false);
+
+  const updatePosition = (event: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    onPositionChange(Math.max(0, Math.min(1, point.x / imageWidth)));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    draggingRef.current = true;
+    updatePosition(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (draggingRef.current) updatePosition(event);
+  };
+
+  const handlePointerUp = () => {
+    draggingRef.current = false;
+  };
+
+  const x = position * imageWidth;
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="absolute inset-0 w-full h-full cursor-ew-resize touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <defs>
+        <clipPath id="wipe-before">
+          <rect x={0} y={0} width={x} height={imageHeight} />
+        </clipPath>
+      </defs>
+      <image href={beforeImage} width={imageWidth} height={imageHeight} clipPath="url(#wipe-before)" />
+      <line
+        x1={x}
+        y1={0}
+        x2={x}
+        y2={imageHeight}
+        stroke="white"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+        style={{ filter: 'drop-shadow(0 0 2px rgba(0, 0, 0, 0.6))' }}
+      />
+    </svg>
+  );
+};
+
+export default WipeOverlay;
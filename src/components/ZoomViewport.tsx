@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FIT_VIEW, MAX_ZOOM, ViewState, resolveView } from '@/lib/view-state';
+
+interface ZoomViewportProps {
+  imageWidth: number;
+  imageHeight: number;
+  view: ViewState;
+  onViewChange: (view: ViewState) => void;
+  // 光标下的原图坐标，离开时为 null
+  onHover?: (point: [number, number] | null) => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// 可缩放、平移的预览视口：滚轮或双指缩放，中键、空格+拖动或在图片空白处拖动平移；
+// 子元素按 object-contain 铺满视口，与覆盖层一起整体变换，坐标换算不受影响
+const ZoomViewport: React.FC<ZoomViewportProps> = ({
+  imageWidth,
+  imageHeight,
+  view,
+  onViewChange,
+  onHover,
+  className,
+  children
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState({ width: 0, height: 0 });
+  const panRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+  const touchesRef = useRef(new Map<number, [number, number]>());
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+  const spaceRef = useRef(false);
+  const hoverFrameRef = useRef(0);
+
+  const resolved = resolveView(view, imageWidth, imageHeight, box.width, box.height);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setBox({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.code === 'Space') spaceRef.current = event.type === 'keydown';
+    };
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+    };
+  }, []);
+
+  // 以屏幕上的某一点为锚缩放：该点对应的原图坐标保持不动
+  const zoomAround = (clientX: number, clientY: number, nextZoom: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const { resolved: current, onViewChange: change } = latestRef.current;
+    const rect = container.getBoundingClientRect();
+    const dx = clientX - (rect.left + rect.width / 2);
+    const dy = clientY - (rect.top + rect.height / 2);
+    const zoom = Math.min(MAX_ZOOM, Math.max(current.fit, nextZoom));
+    const anchorX = current.centerX + dx / current.zoom;
+    const anchorY = current.centerY + dy / current.zoom;
+    change(zoom <= current.fit
+      ? FIT_VIEW
+      : { zoom, centerX: anchorX - dx / zoom, centerY: anchorY - dy / zoom });
+  };
+
+  // 事件回调里需要最新的视图，避免重新绑定原生滚轮监听
+  const latestRef = useRef({ resolved, onViewChange, zoomAround });
+  latestRef.current = { resolved, onViewChange, zoomAround };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const { resolved: current, zoomAround: zoom } = latestRef.current;
+      zoom(event.clientX, event.clientY, current.zoom * Math.exp(-event.deltaY * 0.002));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const toImagePoint = (clientX: number, clientY: number): [number, number] | null => {
+    const container = containerRef.current;
+    if (!container) return null;
+    const rect = container.getBoundingClientRect();
+    const x = resolved.centerX + (clientX - rect.left - rect.width / 2) / resolved.zoom;
+    const y = resolved.centerY + (clientY - rect.top - rect.height / 2) / resolved.zoom;
+    if (x < 0 || y < 0 || x >= imageWidth || y >= imageHeight) return null;
+    return [Math.floor(x), Math.floor(y)];
+  };
+
+  // 捕获阶段处理双指缩放与中键/空格平移，优先于覆盖层上的绘制工具
+  const handlePointerDownCapture = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType === 'touch') {
+      touchesRef.current.set(event.pointerId, [event.clientX, event.clientY]);
+      if (touchesRef.current.size === 2) {
+        const [a, b] = [...touchesRef.current.values()];
+        pinchRef.current = { distance: Math.hypot(a[0] - b[0], a[1] - b[1]), zoom: resolved.zoom };
+        event.stopPropagation();
+      }
+      return;
+    }
+    if (event.button === 1 || (event.button === 0 && spaceRef.current)) {
+      event.preventDefault();
+      event.stopPropagation();
+      event.currentTarget.setPointerCapture(event.pointerId);
+      panRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY };
+    }
+  };
+
+  // 冒泡到这里且不在覆盖层上的拖动视为平移
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0 || panRef.current || pinchRef.current) return;
+    if ((event.target as Element).closest('svg')) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    panRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerMoveCapture = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerType === 'touch' && touchesRef.current.has(event.pointerId)) {
+      touchesRef.current.set(event.pointerId, [event.clientX, event.clientY]);
+      const pinch = pinchRef.current;
+      if (pinch && touchesRef.current.size === 2) {
+        const [a, b] = [...touchesRef.current.values()];
+        const distance = Math.hypot(a[0] - b[0], a[1] - b[1]);
+        zoomAround((a[0] + b[0]) / 2, (a[1] + b[1]) / 2, pinch.zoom * distance / pinch.distance);
+        event.stopPropagation();
+        return;
+      }
+    }
+
+    const pan = panRef.current;
+    if (pan && pan.pointerId === event.pointerId) {
+      const { resolved: current, onViewChange: change } = latestRef.current;
+      if (current.zoom > current.fit) {
+        change({
+          zoom: current.zoom,
+          centerX: current.centerX - (event.clientX - pan.x) / current.zoom,
+          centerY: current.centerY - (event.clientY - pan.y) / current.zoom
+        });
+      }
+      panRef.current = { ...pan, x: event.clientX, y: event.clientY };
+      event.stopPropagation();
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!onHover) return;
+    const { clientX, clientY } = event;
+    cancelAnimationFrame(hoverFrameRef.current);
+    hoverFrameRef.current = requestAnimationFrame(() => onHover(toImagePoint(clientX, clientY)));
+  };
+
+  const handlePointerEnd = (event: React.PointerEvent<HTMLDivElement>) => {
+    touchesRef.current.delete(event.pointerId);
+    if (touchesRef.current.size < 2) pinchRef.current = null;
+    if (panRef.current?.pointerId === event.pointerId) panRef.current = null;
+  };
+
+  // 包裹层先按适应窗口铺满视口，再整体缩放并平移，使视图中心落在视口中心
+  const scale = resolved.zoom / resolved.fit;
+  const localX = (box.width - imageWidth * resolved.fit) / 2 + resolved.centerX * resolved.fit;
+  const localY = (box.height - imageHeight * resolved.fit) / 2 + resolved.centerY * resolved.fit;
+  const translateX = box.width / 2 - localX * scale;
+  const translateY = box.height / 2 - localY * scale;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative aspect-square rounded-lg overflow-hidden touch-none ${className ?? ''}`}
+      onPointerDownCapture={handlePointerDownCapture}
+      onPointerDown={handlePointerDown}
+      onPointerMoveCapture={handlePointerMoveCapture}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerEnd}
+      onPointerCancel={handlePointerEnd}
+      onPointerLeave={() => {
+        cancelAnimationFrame(hoverFrameRef.current);
+        onHover?.(null);
+      }}
+    >
+      <div
+        className="absolute inset-0 origin-top-left"
+        style={{
+          transform: `translate(${translateX}px, ${translateY}px) scale(${scale})`,
+          imageRendering: resolved.zoom >= 2 ? 'pixelated' : undefined
+        }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default ZoomViewport;
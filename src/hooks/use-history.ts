@@ -0,0 +1,70 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+// 一条可撤销的操作：undo/redo 负责把状态切换到操作前/后，bytes 为该条记录占用的内存估计
+export interface HistoryCommand {
+  label: string;
+  bytes: number;
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface HistoryEntry extends HistoryCommand {
+  id: number;
+}
+
+// 超过条数或内存上限时从最早的记录开始丢弃
+const MAX_ENTRIES = 100;
+const MAX_BYTES = 64 * 1024 * 1024;
+
+// 线性历史：position 为已生效的记录条数，新操作会丢弃 position 之后可重做的记录
+export const useHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [position, setPosition] = useState(0);
+  // 撤销/重做需要同步读取最新的历史，state 只用于渲染
+  const stateRef = useRef({ entries: [] as HistoryEntry[], position: 0 });
+  const nextIdRef = useRef(1);
+
+  const commit = useCallback((nextEntries: HistoryEntry[], nextPosition: number) => {
+    stateRef.current = { entries: nextEntries, position: nextPosition };
+    setEntries(nextEntries);
+    setPosition(nextPosition);
+  }, []);
+
+  const push = useCallback((command: HistoryCommand) => {
+    const { entries: current, position: currentPosition } = stateRef.current;
+    const nextEntries = [...current.slice(0, currentPosition), { ...command, id: nextIdRef.current++ }];
+
+    let total = nextEntries.reduce((sum, entry) => sum + entry.bytes, 0);
+    while (nextEntries.length > 1 && (nextEntries.length > MAX_ENTRIES || total > MAX_BYTES)) {
+      total -= nextEntries[0].bytes;
+      nextEntries.shift();
+    }
+    commit(nextEntries, nextEntries.length);
+  }, [commit]);
+
+  // 依次撤销或重做，直到生效的记录条数等于 target
+  const goTo = useCallback((target: number) => {
+    const { entries: current, position: currentPosition } = stateRef.current;
+    const clamped = Math.max(0, Math.min(current.length, target));
+    for (let i = currentPosition - 1; i >= clamped; i--) current[i].undo();
+    for (let i = currentPosition; i < clamped; i++) current[i].redo();
+    commit(current, clamped);
+  }, [commit]);
+
+  const undo = useCallback(() => goTo(stateRef.current.position - 1), [goTo]);
+  const redo = useCallback(() => goTo(stateRef.current.position + 1), [goTo]);
+  const clear = useCallback(() => commit([], 0), [commit]);
+
+  // 只在历史变化时返回新对象，依赖它的回调与快捷键监听不会每次渲染都重建
+  return useMemo(() => ({
+    entries,
+    position,
+    canUndo: position > 0,
+    canRedo: position < entries.length,
+    push,
+    goTo,
+    undo,
+    redo,
+    clear
+  }), [entries, position, push, goTo, undo, redo, clear]);
+};
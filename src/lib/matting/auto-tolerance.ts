@@ -0,0 +1,120 @@
+// 自动容差：统计每个像素到背景的距离直方图，用 Otsu 或谷底检测在背景峰与前景之间找出阈值
+import { MetricProfile } from '@/lib/matting/color';
+
+export type ToleranceMethod = 'otsu' | 'valley';
+
+export interface DistanceHistogram {
+  // 各区间的像素数，区间覆盖 [0, range)
+  counts: number[];
+  binWidth: number;
+  // 距离不小于 range 的像素数，计入前景但不参与绘制
+  overflow: number;
+}
+
+const BIN_COUNT = 64;
+// 谷底检测前的平滑半径（区间数）
+const SMOOTH_RADIUS = 2;
+// 背景峰单调下降、找不到回升时，取降到峰值该比例处作为谷底
+const VALLEY_FLOOR = 0.02;
+// 低于最高区间该比例的局部峰视为噪声，不作为背景峰
+const MIN_PEAK_RATIO = 0.05;
+// 背景峰顶可能是平的：先越过仍高于峰值该比例的肩部，再开始找谷底
+const SHOULDER_RATIO = 0.5;
+// 连续上升这么多个区间才算直方图回升，避免平台上的微小起伏被当作谷底
+const RISE_BINS = 2;
+
+export const buildDistanceHistogram = (distances: Float32Array, range: number): DistanceHistogram => {
+  const binWidth = range / BIN_COUNT;
+  const counts = new Array<number>(BIN_COUNT).fill(0);
+  let overflow = 0;
+  for (let i = 0; i < distances.length; i++) {
+    const d = distances[i];
+    if (d >= range) overflow++;
+    else counts[Math.floor(d / binWidth)]++;
+  }
+  return { counts, binWidth, overflow };
+};
+
+// Otsu：使背景与前景两类之间方差最大的分割点，返回阈值所在区间的下标
+const otsuBin = (histogram: DistanceHistogram): number => {
+  const counts = [...histogram.counts, histogram.overflow];
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const weightedTotal = counts.reduce((sum, count, i) => sum + count * i, 0);
+
+  let best = 0;
+  let bestVariance = -1;
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  for (let t = 0; t < counts.length - 1; t++) {
+    backgroundCount += counts[t];
+    backgroundSum += counts[t] * t;
+    const foregroundCount = total - backgroundCount;
+    if (backgroundCount === 0 || foregroundCount === 0) continue;
+    const meanBackground = backgroundSum / backgroundCount;
+    const meanForeground = (weightedTotal - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+};
+
+const otsuThreshold = (histogram: DistanceHistogram): number => (otsuBin(histogram) + 1) * histogram.binWidth;
+
+// 谷底：平滑后从距离 0 一侧第一个明显的峰（背景峰）的右肩向右走，直到直方图连续回升或降到峰值的很小比例；
+// 主体占满画面时最高的峰属于主体，因此背景峰只在 Otsu 分割点以内寻找
+const valleyThreshold = (histogram: DistanceHistogram): number => {
+  const { counts, binWidth } = histogram;
+  const smoothed = counts.map((_, i) => {
+    let sum = 0;
+    let n = 0;
+    for (let k = Math.max(0, i - SMOOTH_RADIUS); k <= Math.min(counts.length - 1, i + SMOOTH_RADIUS); k++) {
+      sum += counts[k];
+      n++;
+    }
+    return sum / n;
+  });
+
+  const split = otsuBin(histogram);
+  const minPeak = Math.max(...smoothed) * MIN_PEAK_RATIO;
+  let peak = -1;
+  for (let i = 0; i <= Math.min(split, smoothed.length - 1); i++) {
+    const left = i > 0 ? smoothed[i - 1] : -1;
+    const right = i < smoothed.length - 1 ? smoothed[i + 1] : -1;
+    if (smoothed[i] >= minPeak && smoothed[i] >= left && smoothed[i] >= right) {
+      peak = i;
+      break;
+    }
+  }
+  if (peak < 0) return otsuThreshold(histogram);
+  let start = peak + 1;
+  while (start < smoothed.length && smoothed[start] >= smoothed[peak] * SHOULDER_RATIO) start++;
+  const rises = (i: number) => {
+    for (let k = i; k < i + RISE_BINS; k++) {
+      if (smoothed[k + 1] <= smoothed[k]) return false;
+    }
+    return true;
+  };
+  for (let i = start; i < smoothed.length - RISE_BINS; i++) {
+    if (rises(i) || smoothed[i] <= smoothed[peak] * VALLEY_FLOOR) {
+      return (i + 0.5) * binWidth;
+    }
+  }
+  return otsuThreshold(histogram);
+};
+
+// 以阈值为中心给出 [内侧, 外侧] 容差，过渡带宽度与该度量默认容差的比例一致，并对齐到滑块步长
+export const toleranceFromThreshold = (threshold: number, profile: MetricProfile): [number, number] => {
+  const [defaultInner, defaultOuter] = profile.defaultTolerance;
+  const halfBand = threshold * (1 - defaultInner / defaultOuter) / 2;
+  const snap = (value: number) => {
+    const snapped = Math.round(value / profile.step) * profile.step;
+    return Math.min(profile.max, Math.max(profile.min, Number(snapped.toFixed(2))));
+  };
+  return [snap(threshold - halfBand), snap(threshold + halfBand)];
+};
+
+export const findThreshold = (histogram: DistanceHistogram, method: ToleranceMethod): number =>
+  method === 'otsu' ? otsuThreshold(histogram) : valleyThreshold(histogram);
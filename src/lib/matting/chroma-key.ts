@@ -0,0 +1,161 @@
+// 色键（绿幕/蓝幕）抠像：按色相与饱和度而非 RGB 距离生成 alpha，并抑制主体上的溢色
+import { RGB } from '@/lib/matting/color';
+import { DEFAULT_SAMPLING, SamplingOptions, sampleBorder } from '@/lib/matting/sampling';
+
+export type KeyColor = 'auto' | 'green' | 'blue';
+
+export interface ChromaKeyScreen {
+  // 键色色相（度）
+  hue: number;
+  // 幕布的典型饱和度，用于归一化，使明暗不均的幕布得到相近的键值
+  saturation: number;
+  // 幕布的平均颜色
+  color: RGB;
+}
+
+export interface ChromaKeyOptions {
+  // 键值强度，1 为标准
+  strength: number;
+  // alpha 低于 clipBlack 视为完全透明，高于 clipWhite 视为完全不透明（0–1）
+  clipBlack: number;
+  clipWhite: number;
+}
+
+const PRESET_HUES: Record<Exclude<KeyColor, 'auto'>, number> = {
+  green: 120,
+  blue: 225
+};
+
+// 色相差在该范围内权重为 1，超过 HUE_OUTER 权重为 0
+const HUE_INNER = 20;
+const HUE_OUTER = 60;
+// 采样饱和度低于该值的像素不参与键色检测
+const MIN_SCREEN_SATURATION = 0.2;
+// 亮度低于该值时饱和度不可靠，键值按比例减弱
+const DARK_LIMIT = 40;
+
+const hueSaturation = (r: number, g: number, b: number): [number, number] => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const chroma = max - min;
+  if (chroma === 0) return [0, 0];
+
+  let hue: number;
+  if (max === r) hue = ((g - b) / chroma) % 6;
+  else if (max === g) hue = (b - r) / chroma + 2;
+  else hue = (r - g) / chroma + 4;
+  hue *= 60;
+  if (hue < 0) hue += 360;
+
+  return [hue, chroma / max];
+};
+
+const hueDifference = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+// 从边缘采样中找出幕布：自动模式取饱和像素色相的圆周加权平均
+export const detectScreen = (
+  imageData: ImageData,
+  keyColor: KeyColor,
+  sampling: SamplingOptions = DEFAULT_SAMPLING
+): ChromaKeyScreen => {
+  const samples = sampleBorder(imageData, sampling).map((sample) => {
+    const [hue, saturation] = hueSaturation(sample.r, sample.g, sample.b);
+    return { ...sample, hue, saturation };
+  });
+  const saturated = samples.filter((sample) => sample.saturation >= MIN_SCREEN_SATURATION);
+
+  let hue = keyColor === 'auto' ? PRESET_HUES.green : PRESET_HUES[keyColor];
+  if (keyColor === 'auto' && saturated.length > 0) {
+    let x = 0;
+    let y = 0;
+    for (const sample of saturated) {
+      x += Math.cos(sample.hue * Math.PI / 180) * sample.saturation;
+      y += Math.sin(sample.hue * Math.PI / 180) * sample.saturation;
+    }
+    hue = (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+  }
+
+  const screen = saturated.filter((sample) => hueDifference(sample.hue, hue) <= HUE_INNER);
+  if (screen.length === 0) {
+    return { hue, saturation: 0.5, color: { r: 0, g: 0, b: 0 } };
+  }
+
+  const saturations = screen.map((sample) => sample.saturation).sort((a, b) => a - b);
+  const sum = screen.reduce((acc, sample) => ({ r: acc.r + sample.r, g: acc.g + sample.g, b: acc.b + sample.b }), { r: 0, g: 0, b: 0 });
+
+  return {
+    hue,
+    saturation: saturations[Math.floor(saturations.length / 2)],
+    color: {
+      r: Math.round(sum.r / screen.length),
+      g: Math.round(sum.g / screen.length),
+      b: Math.round(sum.b / screen.length)
+    }
+  };
+};
+
+export const chromaKeyAlpha = (imageData: ImageData, screen: ChromaKeyScreen, options: ChromaKeyOptions): Float32Array => {
+  const { data, width, height } = imageData;
+  const alpha = new Float32Array(width * height);
+  const clipRange = Math.max(1e-3, options.clipWhite - options.clipBlack);
+
+  for (let i = 0; i < alpha.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const [hue, saturation] = hueSaturation(r, g, b);
+
+    // 键值：色相越接近、饱和度越接近幕布，越可能是背景
+    const dh = hueDifference(hue, screen.hue);
+    const hueWeight = dh <= HUE_INNER ? 1 : dh >= HUE_OUTER ? 0 : 1 - (dh - HUE_INNER) / (HUE_OUTER - HUE_INNER);
+    const darkWeight = Math.min(1, Math.max(r, g, b) / DARK_LIMIT);
+    const key = hueWeight * darkWeight * Math.min(1, saturation / screen.saturation) * options.strength;
+
+    const raw = 1 - Math.min(1, key);
+    alpha[i] = Math.min(1, Math.max(0, (raw - options.clipBlack) / clipRange));
+  }
+
+  return alpha;
+};
+
+// 去除主体上的溢色：把像素颜色中沿键色方向的分量移除，亮度保持不变
+// protectedMask 中的像素（保护色）保持原色，不做溢色抑制
+export const suppressSpill = (
+  data: Uint8ClampedArray,
+  alpha: Float32Array,
+  screen: ChromaKeyScreen,
+  amount: number,
+  protectedMask?: Uint8Array | null
+) => {
+  if (amount <= 0) return;
+
+  // 键色的色度方向（三个分量之和为 0，因此不改变亮度均值）
+  const rad = screen.hue * Math.PI / 180;
+  const direction = [
+    Math.cos(rad),
+    Math.cos(rad - 2 * Math.PI / 3),
+    Math.cos(rad + 2 * Math.PI / 3)
+  ];
+  const norm = Math.hypot(direction[0], direction[1], direction[2]);
+  const [kr, kg, kb] = direction.map((value) => value / norm);
+
+  for (let i = 0; i < alpha.length; i++) {
+    if (alpha[i] <= 0 || protectedMask?.[i]) continue;
+    const index = i * 4;
+    const r = data[index];
+    const g = data[index + 1];
+    const b = data[index + 2];
+    const mean = (r + g + b) / 3;
+
+    const spill = (r - mean) * kr + (g - mean) * kg + (b - mean) * kb;
+    if (spill <= 0) continue;
+
+    const removed = spill * amount;
+    data[index] = r - removed * kr;
+    data[index + 1] = g - removed * kg;
+    data[index + 2] = b - removed * kb;
+  }
+};
@@ -0,0 +1,162 @@
+// 干净背景板差异抠图：另拍一张不含主体的空场景，逐像素与背景板比较得到 alpha
+import { ColorDistanceFn, RGB } from '@/lib/matting/color';
+
+// 背景板像素 (x + dx, y + dy) 对应原图像素 (x, y)
+export interface PlateOffset {
+  dx: number;
+  dy: number;
+}
+
+// 金字塔最粗一层的最长边
+const ALIGN_SIZE = 128;
+// 每层参与比较的像素上限，超过时按步长抽样
+const ALIGN_SAMPLES = 65536;
+// 截断亮度差，主体所在区域差异再大也只按该值计，不会主导对齐结果
+const DIFFERENCE_CAP = 24;
+// 比较时允许 1 像素的残余错位与重采样误差
+const MATCH_RADIUS = 1;
+
+interface GreyLevel {
+  grey: Float32Array;
+  width: number;
+  height: number;
+}
+
+const toGrey = ({ data, width, height }: ImageData): GreyLevel => {
+  const grey = new Float32Array(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { grey, width, height };
+};
+
+// 2×2 平均降采样
+const downsample = ({ grey, width, height }: GreyLevel): GreyLevel => {
+  const w = Math.ceil(width / 2);
+  const h = Math.ceil(height / 2);
+  const result = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const x0 = x * 2;
+      const y0 = y * 2;
+      const x1 = Math.min(width - 1, x0 + 1);
+      const y1 = Math.min(height - 1, y0 + 1);
+      result[y * w + x] = (grey[y0 * width + x0] + grey[y0 * width + x1] + grey[y1 * width + x0] + grey[y1 * width + x1]) / 4;
+    }
+  }
+  return { grey: result, width: w, height: h };
+};
+
+const buildPyramid = (imageData: ImageData, levels: number): GreyLevel[] => {
+  const pyramid = [toGrey(imageData)];
+  for (let level = 1; level < levels; level++) {
+    pyramid.push(downsample(pyramid[level - 1]));
+  }
+  return pyramid;
+};
+
+// 重叠区域内截断亮度差的均值
+const alignmentCost = (image: GreyLevel, plate: GreyLevel, dx: number, dy: number): number => {
+  const { width, height } = image;
+  const x0 = Math.max(0, -dx);
+  const y0 = Math.max(0, -dy);
+  const x1 = Math.min(width, plate.width - dx);
+  const y1 = Math.min(height, plate.height - dy);
+  if (x1 - x0 < width / 2 || y1 - y0 < height / 2) return Infinity;
+
+  const stride = Math.max(1, Math.floor(Math.sqrt((x1 - x0) * (y1 - y0) / ALIGN_SAMPLES)));
+  let sum = 0;
+  let count = 0;
+  for (let y = y0; y < y1; y += stride) {
+    for (let x = x0; x < x1; x += stride) {
+      const difference = Math.abs(image.grey[y * width + x] - plate.grey[(y + dy) * plate.width + x + dx]);
+      sum += Math.min(difference, DIFFERENCE_CAP);
+      count++;
+    }
+  }
+  return sum / count;
+};
+
+const searchOffset = (image: GreyLevel, plate: GreyLevel, center: PlateOffset, radius: number): PlateOffset => {
+  let best = center;
+  let bestCost = Infinity;
+  for (let dy = center.dy - radius; dy <= center.dy + radius; dy++) {
+    for (let dx = center.dx - radius; dx <= center.dx + radius; dx++) {
+      const cost = alignmentCost(image, plate, dx, dy);
+      // 代价相同时偏向位移更小的候选
+      if (cost < bestCost || (cost === bestCost && Math.abs(dx) + Math.abs(dy) < Math.abs(best.dx) + Math.abs(best.dy))) {
+        bestCost = cost;
+        best = { dx, dy };
+      }
+    }
+  }
+  return best;
+};
+
+// 由粗到细搜索平移量，补偿两次拍摄之间相机的轻微移动；两张图需尺寸一致
+export const alignPlate = (imageData: ImageData, plateData: ImageData, maxShift: number): PlateOffset => {
+  const levels = Math.max(1, Math.ceil(Math.log2(Math.max(imageData.width, imageData.height) / ALIGN_SIZE)) + 1);
+  const imagePyramid = buildPyramid(imageData, levels);
+  const platePyramid = buildPyramid(plateData, levels);
+
+  // 最粗一层穷举，之后每层把位移加倍并在 ±1 像素内修正
+  const coarsest = levels - 1;
+  let offset = searchOffset(
+    imagePyramid[coarsest],
+    platePyramid[coarsest],
+    { dx: 0, dy: 0 },
+    Math.ceil(maxShift / 2 ** coarsest)
+  );
+  for (let level = coarsest - 1; level >= 0; level--) {
+    offset = searchOffset(imagePyramid[level], platePyramid[level], { dx: offset.dx * 2, dy: offset.dy * 2 }, 1);
+  }
+
+  const limit = Math.round(maxShift);
+  return {
+    dx: Math.max(-limit, Math.min(limit, offset.dx)),
+    dy: Math.max(-limit, Math.min(limit, offset.dy))
+  };
+};
+
+// 每个像素到背景板对应位置（含邻域）颜色的最小距离
+export const computePlateDistanceMap = (
+  imageData: ImageData,
+  plateData: ImageData,
+  offset: PlateOffset,
+  colorDistance: ColorDistanceFn
+): Float32Array => {
+  const { data, width, height } = imageData;
+  const plate = plateData.data;
+  const distances = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const r = data[index * 4];
+      const g = data[index * 4 + 1];
+      const b = data[index * 4 + 2];
+
+      let minDistance = Infinity;
+      for (let oy = -MATCH_RADIUS; oy <= MATCH_RADIUS; oy++) {
+        const py = Math.min(plateData.height - 1, Math.max(0, y + offset.dy + oy));
+        for (let ox = -MATCH_RADIUS; ox <= MATCH_RADIUS; ox++) {
+          const px = Math.min(plateData.width - 1, Math.max(0, x + offset.dx + ox));
+          const p = (py * plateData.width + px) * 4;
+          const distance = colorDistance(r, g, b, plate[p], plate[p + 1], plate[p + 2]);
+          if (distance < minDistance) minDistance = distance;
+        }
+      }
+      distances[index] = minDistance;
+    }
+  }
+
+  return distances;
+};
+
+// 背景板给出每个像素处的真实背景色，供边缘去色使用
+export const plateBackgroundAt = (imageData: ImageData, plateData: ImageData, offset: PlateOffset) => (index: number): RGB => {
+  const x = Math.min(plateData.width - 1, Math.max(0, index % imageData.width + offset.dx));
+  const y = Math.min(plateData.height - 1, Math.max(0, Math.floor(index / imageData.width) + offset.dy));
+  const p = (y * plateData.width + x) * 4;
+  return { r: plateData.data[p], g: plateData.data[p + 1], b: plateData.data[p + 2] };
+};
@@ -0,0 +1,195 @@
+// 闭式抠图（Levin et al. 2008）：在三分图的未知带内求解分数 alpha，恢复头发、毛发与运动模糊的细节
+import { signedDistance } from '@/lib/matting/refine';
+
+export const TRIMAP_BACKGROUND = 0;
+export const TRIMAP_FOREGROUND = 1;
+export const TRIMAP_UNKNOWN = 2;
+
+// 正则项，越大求得的 alpha 越平滑
+const EPSILON = 1e-5;
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-4;
+
+// 以当前蒙版边界为中心、宽度为 band 像素的区域为未知，其余按 alpha 是否过半划分为前景或背景
+export const buildTrimap = (alpha: Float32Array, width: number, height: number, band: number): Uint8Array => {
+  const distances = signedDistance(alpha, width, height);
+  const trimap = new Uint8Array(alpha.length);
+  for (let i = 0; i < alpha.length; i++) {
+    if (Math.abs(distances[i]) <= band / 2) trimap[i] = TRIMAP_UNKNOWN;
+    else trimap[i] = distances[i] > 0 ? TRIMAP_FOREGROUND : TRIMAP_BACKGROUND;
+  }
+  return trimap;
+};
+
+interface MattingWindows {
+  centers: Int32Array;
+  means: Float32Array;
+  // (Σ + ε/9·I)⁻¹，按对称矩阵存 6 个元素：xx, xy, xz, yy, yz, zz
+  inverses: Float32Array;
+}
+
+// 只为覆盖到未知像素的 3×3 窗口计算颜色均值与协方差逆
+const prepareWindows = (imageData: ImageData, trimap: Uint8Array): MattingWindows => {
+  const { data, width, height } = imageData;
+  const centers: number[] = [];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let touchesUnknown = false;
+      for (let dy = -1; dy <= 1 && !touchesUnknown; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (trimap[(y + dy) * width + x + dx] === TRIMAP_UNKNOWN) {
+            touchesUnknown = true;
+            break;
+          }
+        }
+      }
+      if (touchesUnknown) centers.push(y * width + x);
+    }
+  }
+
+  const means = new Float32Array(centers.length * 3);
+  const inverses = new Float32Array(centers.length * 6);
+
+  centers.forEach((center, w) => {
+    let mr = 0, mg = 0, mb = 0;
+    let rr = 0, rg = 0, rb = 0, gg = 0, gb = 0, bb = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const index = (center + dy * width + dx) * 4;
+        const r = data[index] / 255;
+        const g = data[index + 1] / 255;
+        const b = data[index + 2] / 255;
+        mr += r; mg += g; mb += b;
+        rr += r * r; rg += r * g; rb += r * b;
+        gg += g * g; gb += g * b; bb += b * b;
+      }
+    }
+    mr /= 9; mg /= 9; mb /= 9;
+
+    const e = EPSILON / 9;
+    const a = rr / 9 - mr * mr + e;
+    const b = rg / 9 - mr * mg;
+    const c = rb / 9 - mr * mb;
+    const d = gg / 9 - mg * mg + e;
+    const f = gb / 9 - mg * mb;
+    const g = bb / 9 - mb * mb + e;
+
+    const det = a * (d * g - f * f) - b * (b * g - f * c) + c * (b * f - d * c);
+    means.set([mr, mg, mb], w * 3);
+    inverses.set([
+      (d * g - f * f) / det,
+      (c * f - b * g) / det,
+      (b * f - c * d) / det,
+      (a * g - c * c) / det,
+      (b * c - a * f) / det,
+      (a * d - b * b) / det
+    ], w * 6);
+  });
+
+  return { centers: Int32Array.from(centers), means, inverses };
+};
+
+// 免构造矩阵地计算 y = L·x（L 为抠图拉普拉斯矩阵），只累加到窗口覆盖的像素
+const applyLaplacian = (
+  imageData: ImageData,
+  windows: MattingWindows,
+  x: Float32Array,
+  y: Float32Array
+) => {
+  const { data, width } = imageData;
+  const { centers, means, inverses } = windows;
+  const offsets = [-width - 1, -width, -width + 1, -1, 0, 1, width - 1, width, width + 1];
+  const dr = new Float32Array(9);
+  const dg = new Float32Array(9);
+  const db = new Float32Array(9);
+
+  y.fill(0);
+
+  for (let w = 0; w < centers.length; w++) {
+    const center = centers[w];
+    const mr = means[w * 3];
+    const mg = means[w * 3 + 1];
+    const mb = means[w * 3 + 2];
+
+    let sum = 0;
+    let vr = 0, vg = 0, vb = 0;
+    for (let k = 0; k < 9; k++) {
+      const i = center + offsets[k];
+      dr[k] = data[i * 4] / 255 - mr;
+      dg[k] = data[i * 4 + 1] / 255 - mg;
+      db[k] = data[i * 4 + 2] / 255 - mb;
+      const value = x[i];
+      sum += value;
+      vr += dr[k] * value;
+      vg += dg[k] * value;
+      vb += db[k] * value;
+    }
+
+    const m = w * 6;
+    const ar = inverses[m] * vr + inverses[m + 1] * vg + inverses[m + 2] * vb;
+    const ag = inverses[m + 1] * vr + inverses[m + 3] * vg + inverses[m + 4] * vb;
+    const ab = inverses[m + 2] * vr + inverses[m + 4] * vg + inverses[m + 5] * vb;
+
+    for (let k = 0; k < 9; k++) {
+      const i = center + offsets[k];
+      y[i] += x[i] - (sum + dr[k] * ar + dg[k] * ag + db[k] * ab) / 9;
+    }
+  }
+};
+
+// 原地修改 alpha：已知区域作为边界条件，用共轭梯度法求解未知区域 L_uu·α_u = −L_uk·α_k
+export const solveClosedFormMatte = (imageData: ImageData, alpha: Float32Array, trimap: Uint8Array) => {
+  const total = alpha.length;
+  const unknown: number[] = [];
+  for (let i = 0; i < total; i++) {
+    if (trimap[i] === TRIMAP_UNKNOWN) unknown.push(i);
+  }
+  if (unknown.length === 0) return;
+
+  const windows = prepareWindows(imageData, trimap);
+
+  // 已知像素取 0/1，未知像素以当前 alpha 作为初值
+  const x = new Float32Array(total);
+  for (let i = 0; i < total; i++) {
+    x[i] = trimap[i] === TRIMAP_UNKNOWN ? alpha[i] : trimap[i] === TRIMAP_FOREGROUND ? 1 : 0;
+  }
+
+  const product = new Float32Array(total);
+  applyLaplacian(imageData, windows, x, product);
+
+  const residual = new Float32Array(unknown.length);
+  const direction = new Float32Array(total);
+  let rsOld = 0;
+  unknown.forEach((i, u) => {
+    residual[u] = -product[i];
+    direction[i] = residual[u];
+    rsOld += residual[u] * residual[u];
+  });
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS && Math.sqrt(rsOld) > TOLERANCE; iteration++) {
+    applyLaplacian(imageData, windows, direction, product);
+
+    let curvature = 0;
+    for (const i of unknown) curvature += direction[i] * product[i];
+    if (curvature <= 0) break;
+    const step = rsOld / curvature;
+
+    let rsNew = 0;
+    unknown.forEach((i, u) => {
+      x[i] += step * direction[i];
+      residual[u] -= step * product[i];
+      rsNew += residual[u] * residual[u];
+    });
+
+    const beta = rsNew / rsOld;
+    unknown.forEach((i, u) => {
+      direction[i] = residual[u] + beta * direction[i];
+    });
+    rsOld = rsNew;
+  }
+
+  for (const i of unknown) {
+    alpha[i] = Math.min(1, Math.max(0, x[i]));
+  }
+};
@@ -0,0 +1,179 @@
+// 颜色距离度量：RGB 欧氏距离、redmean 加权距离、CIELAB ΔE76 与 CIEDE2000
+
+export type DistanceMetric = 'rgb' | 'redmean' | 'cie76' | 'ciede2000';
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// 每种度量的数值尺度不同，容差滑块的范围和边缘采样的聚类阈值也随之调整
+export interface MetricProfile {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  // 默认的 [内侧, 外侧] 容差
+  defaultTolerance: [number, number];
+  groupThreshold: number;
+}
+
+export const METRIC_PROFILES: Record<DistanceMetric, MetricProfile> = {
+  rgb: { label: 'RGB 欧氏距离', min: 10, max: 100, step: 5, defaultTolerance: [20, 40], groupThreshold: 30 },
+  redmean: { label: 'Redmean 加权', min: 15, max: 180, step: 5, defaultTolerance: [35, 70], groupThreshold: 55 },
+  cie76: { label: 'CIELAB ΔE76', min: 2, max: 50, step: 1, defaultTolerance: [8, 16], groupThreshold: 10 },
+  ciede2000: { label: 'CIEDE2000', min: 1, max: 30, step: 0.5, defaultTolerance: [5, 10], groupThreshold: 7 }
+};
+
+// 切换度量时按滑块范围内的相对位置换算容差，保持“宽松/严格”的程度不变
+export const rescaleTolerance = (value: number, from: DistanceMetric, to: DistanceMetric): number => {
+  const source = METRIC_PROFILES[from];
+  const target = METRIC_PROFILES[to];
+  const ratio = (value - source.min) / (source.max - source.min);
+  const scaled = target.min + ratio * (target.max - target.min);
+  const snapped = Math.round(scaled / target.step) * target.step;
+  return Math.min(target.max, Math.max(target.min, Number(snapped.toFixed(2))));
+};
+
+// sRGB 通道值到线性光强的查找表
+const SRGB_TO_LINEAR = new Float32Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+// D65 白点
+const XN = 0.95047;
+const YN = 1.0;
+const ZN = 1.08883;
+
+const labF = (t: number): number => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+
+// Lab 转换结果按 24 位颜色缓存，同一张图中重复出现的颜色只转换一次
+const MAX_CACHE_SIZE = 1 << 20;
+const labCache = new Map<number, Float32Array>();
+
+export const rgbToLab = (r: number, g: number, b: number): Float32Array => {
+  const key = (r << 16) | (g << 8) | b;
+  const cached = labCache.get(key);
+  if (cached) return cached;
+
+  const lr = SRGB_TO_LINEAR[r];
+  const lg = SRGB_TO_LINEAR[g];
+  const lb = SRGB_TO_LINEAR[b];
+
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / XN;
+  const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750) / YN;
+  const z = (lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041) / ZN;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+
+  const lab = new Float32Array([116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]);
+
+  if (labCache.size >= MAX_CACHE_SIZE) labCache.clear();
+  labCache.set(key, lab);
+  return lab;
+};
+
+const rgbDistance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number): number => {
+  return Math.sqrt((r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2);
+};
+
+// 低成本的感知加权距离，红色均值决定红蓝通道的权重
+const redmeanDistance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number): number => {
+  const rMean = (r1 + r2) / 2;
+  const dr = r1 - r2;
+  const dg = g1 - g2;
+  const db = b1 - b2;
+  return Math.sqrt((2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db);
+};
+
+const cie76Distance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number): number => {
+  const lab1 = rgbToLab(r1, g1, b1);
+  const lab2 = rgbToLab(r2, g2, b2);
+  return Math.sqrt((lab1[0] - lab2[0]) ** 2 + (lab1[1] - lab2[1]) ** 2 + (lab1[2] - lab2[2]) ** 2);
+};
+
+const DEG = Math.PI / 180;
+const POW25_7 = 25 ** 7;
+
+// CIEDE2000（kL = kC = kH = 1）
+export const deltaE2000 = (lab1: Float32Array, lab2: Float32Array): number => {
+  const [l1, a1, b1] = lab1;
+  const [l2, a2, b2] = lab2;
+
+  const c1 = Math.sqrt(a1 * a1 + b1 * b1);
+  const c2 = Math.sqrt(a2 * a2 + b2 * b2);
+  const cBar7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + POW25_7)));
+
+  const a1p = (1 + g) * a1;
+  const a2p = (1 + g) * a2;
+  const c1p = Math.sqrt(a1p * a1p + b1 * b1);
+  const c2p = Math.sqrt(a2p * a2p + b2 * b2);
+
+  let h1p = Math.atan2(b1, a1p) / DEG;
+  if (h1p < 0) h1p += 360;
+  let h2p = Math.atan2(b2, a2p) / DEG;
+  if (h2p < 0) h2p += 360;
+
+  const dLp = l2 - l1;
+  const dCp = c2p - c1p;
+
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * DEG);
+
+  const lBarP = (l1 + l2) / 2;
+  const cBarP = (c1p + c2p) / 2;
+
+  let hBarP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarP /= 2;
+    else if (h1p + h2p < 360) hBarP = (hBarP + 360) / 2;
+    else hBarP = (hBarP - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos((hBarP - 30) * DEG)
+    + 0.24 * Math.cos(2 * hBarP * DEG)
+    + 0.32 * Math.cos((3 * hBarP + 6) * DEG)
+    - 0.20 * Math.cos((4 * hBarP - 63) * DEG);
+
+  const dTheta = 30 * Math.exp(-(((hBarP - 275) / 25) ** 2));
+  const cBarP7 = cBarP ** 7;
+  const rc = 2 * Math.sqrt(cBarP7 / (cBarP7 + POW25_7));
+  const lBar50 = (lBarP - 50) ** 2;
+  const sl = 1 + (0.015 * lBar50) / Math.sqrt(20 + lBar50);
+  const sc = 1 + 0.045 * cBarP;
+  const sh = 1 + 0.015 * cBarP * t;
+  const rt = -Math.sin(2 * dTheta * DEG) * rc;
+
+  const termL = dLp / sl;
+  const termC = dCp / sc;
+  const termH = dHp / sh;
+
+  return Math.sqrt(termL * termL + termC * termC + termH * termH + rt * termC * termH);
+};
+
+const ciede2000Distance = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number): number => {
+  return deltaE2000(rgbToLab(r1, g1, b1), rgbToLab(r2, g2, b2));
+};
+
+export type ColorDistanceFn = (r1: number, g1: number, b1: number, r2: number, g2: number, b2: number) => number;
+
+const DISTANCE_FUNCTIONS: Record<DistanceMetric, ColorDistanceFn> = {
+  rgb: rgbDistance,
+  redmean: redmeanDistance,
+  cie76: cie76Distance,
+  ciede2000: ciede2000Distance
+};
+
+export const getColorDistance = (metric: DistanceMetric): ColorDistanceFn => DISTANCE_FUNCTIONS[metric];
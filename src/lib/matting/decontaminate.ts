@@ -0,0 +1,56 @@
+// 边缘去色：半透明像素仍混有原背景色，按合成方程 I = αF + (1 − α)B 反解前景色 F 并写回
+import { ColorDistanceFn, RGB } from '@/lib/matting/color';
+
+// alpha 过小时反解不稳定，分母至少取该值
+const MIN_ALPHA = 0.05;
+
+// backgroundAt: 给出像素下标处的背景色估计；strength: 0–1，按比例从原色过渡到反解出的前景色
+export const decontaminate = (
+  data: Uint8ClampedArray,
+  alpha: Float32Array,
+  backgroundAt: (index: number) => RGB,
+  strength: number
+) => {
+  if (strength <= 0) return;
+
+  for (let i = 0; i < alpha.length; i++) {
+    const a = alpha[i];
+    if (a <= 0 || a >= 1) continue;
+
+    const background = backgroundAt(i);
+    const divisor = Math.max(a, MIN_ALPHA);
+    const index = i * 4;
+
+    const r = data[index];
+    const g = data[index + 1];
+    const b = data[index + 2];
+    const fr = (r - (1 - a) * background.r) / divisor;
+    const fg = (g - (1 - a) * background.g) / divisor;
+    const fb = (b - (1 - a) * background.b) / divisor;
+
+    data[index] = r + strength * (fr - r);
+    data[index + 1] = g + strength * (fg - g);
+    data[index + 2] = b + strength * (fb - b);
+  }
+};
+
+// 在若干背景色中取与像素颜色最接近的一个
+export const nearestBackground = (
+  data: Uint8ClampedArray,
+  colors: RGB[],
+  colorDistance: ColorDistanceFn
+) => (index: number): RGB => {
+  const r = data[index * 4];
+  const g = data[index * 4 + 1];
+  const b = data[index * 4 + 2];
+  let best = colors[0] ?? { r: 0, g: 0, b: 0 };
+  let bestDistance = Infinity;
+  for (const color of colors) {
+    const distance = colorDistance(r, g, b, color.r, color.g, color.b);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = color;
+    }
+  }
+  return best;
+};
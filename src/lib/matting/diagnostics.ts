@@ -0,0 +1,56 @@
+// 诊断：每个像素到最近背景色的距离及该背景色所属的聚类，用于解释像素为何被移除
+import { ColorDistanceFn } from '@/lib/matting/color';
+import { PaletteEntry, toleranceScales } from '@/lib/matting/palette';
+
+// 没有可用背景色时的聚类标记
+export const NO_CLUSTER = 255;
+
+export interface ClusterAttribution {
+  // 到最近的参与移除的背景色的距离，已按各颜色单独的容差换算到全局容差的尺度
+  distances: Float32Array;
+  // 最近背景色在调色板中的下标，已忽略的聚类不参与比较
+  labels: Uint8Array;
+}
+
+export const attributeClusters = (
+  imageData: ImageData,
+  clusters: PaletteEntry[],
+  colorDistance: ColorDistanceFn,
+  outerTolerance: number
+): ClusterAttribution => {
+  const scales = toleranceScales(clusters, outerTolerance);
+  const data = imageData.data;
+  const total = imageData.width * imageData.height;
+  const distances = new Float32Array(total).fill(Infinity);
+  const labels = new Uint8Array(total).fill(NO_CLUSTER);
+
+  for (let i = 0; i < total; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+
+    clusters.forEach((cluster, k) => {
+      if (cluster.rejected) return;
+      const distance = colorDistance(r, g, b, cluster.r, cluster.g, cluster.b) * scales[k];
+      if (distance < distances[i]) {
+        distances[i] = distance;
+        labels[i] = k;
+      }
+    });
+  }
+
+  return { distances, labels };
+};
+
+// 各聚类造成的移除量占总移除量的比例，移除量按 1 - alpha 累计
+export const removalShares = (labels: Uint8Array, alpha: Float32Array, clusterCount: number): number[] => {
+  const removed = new Array<number>(clusterCount).fill(0);
+  let total = 0;
+  for (let i = 0; i < alpha.length; i++) {
+    const weight = 1 - alpha[i];
+    if (weight <= 0 || labels[i] === NO_CLUSTER) continue;
+    removed[labels[i]] += weight;
+    total += weight;
+  }
+  return removed.map((value) => (total > 0 ? value / total : 0));
+};
@@ -0,0 +1,169 @@
+// 边缘保护：用 Canny 边缘检测找到主体轮廓，阻止背景移除越过靠近抠像边界的强边缘
+import { distanceTransform } from '@/lib/matting/refine';
+
+// 由“边缘处理”滑块（1–10）换算出的检测阈值与保护半径，数值越大检测到的边缘越多、保护范围越宽
+export const edgeProtectionParams = (level: number) => {
+  const high = 160 - 12 * level;
+  return {
+    high,
+    low: high * 0.4,
+    radius: Math.ceil(level / 2)
+  };
+};
+
+// 5×5 高斯平滑后的亮度图，核为 [1, 4, 6, 4, 1] / 16 的可分离形式
+const blurredLuminance = (imageData: ImageData): Float32Array => {
+  const { data, width, height } = imageData;
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  const kernel = [1, 4, 6, 4, 1];
+  const temp = new Float32Array(luminance.length);
+  const result = new Float32Array(luminance.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        sum += luminance[y * width + sx] * kernel[k + 2];
+      }
+      temp[y * width + x] = sum / 16;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -2; k <= 2; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        sum += temp[sy * width + x] * kernel[k + 2];
+      }
+      result[y * width + x] = sum / 16;
+    }
+  }
+
+  return result;
+};
+
+// Canny：Sobel 梯度、非极大值抑制、双阈值滞后连接，返回边缘掩码（1 = 边缘）
+export const detectEdges = (imageData: ImageData, high: number, low: number): Uint8Array => {
+  const { width, height } = imageData;
+  const total = width * height;
+  const lum = blurredLuminance(imageData);
+  const magnitude = new Float32Array(total);
+  const direction = new Uint8Array(total);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = -lum[i - width - 1] - 2 * lum[i - 1] - lum[i + width - 1]
+        + lum[i - width + 1] + 2 * lum[i + 1] + lum[i + width + 1];
+      const gy = -lum[i - width - 1] - 2 * lum[i - width] - lum[i - width + 1]
+        + lum[i + width - 1] + 2 * lum[i + width] + lum[i + width + 1];
+      magnitude[i] = Math.sqrt(gx * gx + gy * gy);
+
+      // 梯度方向量化为 0°、45°、90°、135°
+      let angle = Math.atan2(gy, gx) * 180 / Math.PI;
+      if (angle < 0) angle += 180;
+      direction[i] = angle < 22.5 || angle >= 157.5 ? 0 : angle < 67.5 ? 1 : angle < 112.5 ? 2 : 3;
+    }
+  }
+
+  // 非极大值抑制：只保留梯度方向上的局部最大值
+  const OFFSETS = [1, width + 1, width, width - 1];
+  const state = new Uint8Array(total); // 0 = 非边缘，1 = 弱边缘，2 = 强边缘
+  const stack = new Int32Array(total);
+  let top = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const m = magnitude[i];
+      if (m < low) continue;
+      const offset = OFFSETS[direction[i]];
+      if (m < magnitude[i - offset] || m < magnitude[i + offset]) continue;
+      if (m >= high) {
+        state[i] = 2;
+        stack[top++] = i;
+      } else {
+        state[i] = 1;
+      }
+    }
+  }
+
+  // 滞后连接：与强边缘 8 邻接的弱边缘升级为强边缘
+  while (top > 0) {
+    const i = stack[--top];
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (state[n] === 1) {
+          state[n] = 2;
+          stack[top++] = n;
+        }
+      }
+    }
+  }
+
+  const edges = new Uint8Array(total);
+  for (let i = 0; i < total; i++) {
+    if (state[i] === 2) edges[i] = 1;
+  }
+  return edges;
+};
+
+export interface EdgeProtection {
+  // 距离抠像边界不超过 radius 的强边缘
+  protectedEdges: Uint8Array;
+  // 受保护边缘向外扩展 radius 后的区域，其中的像素不会被移除
+  protectedZone: Uint8Array;
+}
+
+// backgroundMask: 当前的背景掩码（1 = 背景），其边界即抠像边界
+export const computeEdgeProtection = (
+  edges: Uint8Array,
+  backgroundMask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number
+): EdgeProtection => {
+  const total = width * height;
+  const boundary = new Uint8Array(total);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const value = backgroundMask[i];
+      if (
+        (x > 0 && backgroundMask[i - 1] !== value) ||
+        (x < width - 1 && backgroundMask[i + 1] !== value) ||
+        (y > 0 && backgroundMask[i - width] !== value) ||
+        (y < height - 1 && backgroundMask[i + width] !== value)
+      ) {
+        boundary[i] = 1;
+      }
+    }
+  }
+
+  const toBoundary = distanceTransform(boundary, width, height);
+  const protectedEdges = new Uint8Array(total);
+  for (let i = 0; i < total; i++) {
+    if (edges[i] && toBoundary[i] <= radius) protectedEdges[i] = 1;
+  }
+
+  const toEdge = distanceTransform(protectedEdges, width, height);
+  const protectedZone = new Uint8Array(total);
+  for (let i = 0; i < total; i++) {
+    if (toEdge[i] <= radius) protectedZone[i] = 1;
+  }
+
+  return { protectedEdges, protectedZone };
+};
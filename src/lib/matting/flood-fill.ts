@@ -0,0 +1,95 @@
+// 从图像边缘出发的区域生长：只有与边缘连通的相似颜色像素才会被判定为背景
+
+export interface FloodFillOptions {
+  // 是否同时移除被主体包围的背景“孔洞”（例如圆环内部）
+  removeHoles: boolean;
+  // 孔洞最小面积（占整幅图像的百分比），小于该面积的封闭区域保留
+  holeMinArea: number;
+}
+
+// 以 4 邻域从 seeds 出发扩展，只经过 candidate 为 1 的像素，结果写入 visited；
+// 需要区域内的像素下标时传入 region 收集
+const growRegion = (
+  width: number,
+  height: number,
+  candidate: Uint8Array,
+  visited: Uint8Array,
+  seeds: number[],
+  stack: Int32Array,
+  region?: number[]
+): void => {
+  let top = 0;
+
+  for (const seed of seeds) {
+    if (!candidate[seed] || visited[seed]) continue;
+    visited[seed] = 1;
+    stack[top++] = seed;
+  }
+
+  while (top > 0) {
+    const index = stack[--top];
+    region?.push(index);
+
+    const x = index % width;
+    const y = (index - x) / width;
+
+    if (x > 0) {
+      const next = index - 1;
+      if (candidate[next] && !visited[next]) { visited[next] = 1; stack[top++] = next; }
+    }
+    if (x < width - 1) {
+      const next = index + 1;
+      if (candidate[next] && !visited[next]) { visited[next] = 1; stack[top++] = next; }
+    }
+    if (y > 0) {
+      const next = index - width;
+      if (candidate[next] && !visited[next]) { visited[next] = 1; stack[top++] = next; }
+    }
+    if (y < height - 1) {
+      const next = index + width;
+      if (candidate[next] && !visited[next]) { visited[next] = 1; stack[top++] = next; }
+    }
+  }
+};
+
+// candidate: 每个像素是否与背景色相似（1 = 相似）
+// 返回背景掩码（1 = 背景），只包含从边缘可达的区域以及满足条件的孔洞
+export const floodFillFromBorder = (
+  width: number,
+  height: number,
+  candidate: Uint8Array,
+  options: FloodFillOptions
+): Uint8Array => {
+  const total = width * height;
+  const mask = new Uint8Array(total);
+  // 每个像素最多入栈一次，栈大小不会超过像素总数
+  const stack = new Int32Array(total);
+
+  // 边缘像素作为种子
+  const seeds: number[] = [];
+  for (let x = 0; x < width; x++) {
+    seeds.push(x, (height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    seeds.push(y * width, y * width + width - 1);
+  }
+
+  growRegion(width, height, candidate, mask, seeds, stack);
+
+  if (!options.removeHoles) return mask;
+
+  // 剩余的相似颜色连通区域都是被主体包围的孔洞，按面积筛选
+  const minSize = Math.max(1, Math.round(total * options.holeMinArea / 100));
+  const visited = new Uint8Array(mask);
+
+  for (let i = 0; i < total; i++) {
+    if (!candidate[i] || visited[i]) continue;
+    const region: number[] = [];
+    growRegion(width, height, candidate, visited, [i], stack, region);
+    if (region.length >= minSize) {
+      for (const index of region) mask[index] = 1;
+    }
+  }
+
+  return mask;
+};
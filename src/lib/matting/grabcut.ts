@@ -0,0 +1,510 @@
+// GrabCut 交互分割：前景/背景各用一个高斯混合模型描述颜色，通过最小割迭代求解分割
+import { MaxFlowGraph } from '@/lib/matting/maxflow';
+import { mulberry32 } from '@/lib/matting/random';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 用户在原图上涂抹的修正笔画，坐标为原图像素
+export interface MaskStroke {
+  mode: 'foreground' | 'background';
+  radius: number;
+  points: Array<[number, number]>;
+}
+
+// 像素标签，与 OpenCV 的约定一致
+const BGD = 0;
+const FGD = 1;
+const PR_BGD = 2;
+const PR_FGD = 3;
+
+const COMPONENTS = 5;
+// 分割在缩小后的图像上进行，结果再放大回原图尺寸
+const MAX_WORK_SIZE = 320;
+// 放大时在原图分辨率下重新求解的边界带半径，以及其外侧用于重新学习颜色模型的环带半径（工作分辨率像素）
+const BOUNDARY_RADIUS = 1;
+const RING_RADIUS = 3;
+// 每一类用于学习原图分辨率颜色模型的最多采样数
+const MAX_RING_SAMPLES = 20000;
+const GAMMA = 50;
+const LAMBDA = 9 * GAMMA;
+
+interface GaussianComponent {
+  weight: number;
+  mean: Float64Array;
+  inverse: Float64Array;
+  determinant: number;
+}
+
+type GMM = GaussianComponent[];
+
+export interface GrabCutState {
+  // 工作分辨率
+  width: number;
+  height: number;
+  // 工作分辨率相对原图的缩放比例
+  scale: number;
+  pixels: Float64Array;
+  labels: Uint8Array;
+  // 与左、左上、上、右上邻居之间的平滑项权重
+  neighborWeights: [Float64Array, Float64Array, Float64Array, Float64Array];
+  foreground: GMM;
+  background: GMM;
+}
+
+const isForeground = (label: number) => label === FGD || label === PR_FGD;
+
+const componentLikelihood = (c: GaussianComponent, r: number, g: number, b: number): number => {
+  if (c.weight === 0) return 0;
+  const dr = r - c.mean[0];
+  const dg = g - c.mean[1];
+  const db = b - c.mean[2];
+  const m = c.inverse;
+  const mahalanobis =
+    dr * (dr * m[0] + dg * m[3] + db * m[6]) +
+    dg * (dr * m[1] + dg * m[4] + db * m[7]) +
+    db * (dr * m[2] + dg * m[5] + db * m[8]);
+  return Math.exp(-0.5 * mahalanobis) / Math.sqrt(c.determinant);
+};
+
+const gmmLikelihood = (gmm: GMM, r: number, g: number, b: number): number => {
+  let sum = 0;
+  for (const c of gmm) sum += c.weight * componentLikelihood(c, r, g, b);
+  return sum;
+};
+
+const mostLikelyComponent = (gmm: GMM, r: number, g: number, b: number): number => {
+  let best = 0;
+  let bestValue = -1;
+  gmm.forEach((c, k) => {
+    const value = componentLikelihood(c, r, g, b);
+    if (value > bestValue) {
+      bestValue = value;
+      best = k;
+    }
+  });
+  return best;
+};
+
+// 根据像素的分量归属估计每个高斯分量的权重、均值和协方差
+const learnGMM = (pixels: Float64Array, indices: number[], assignments: Uint8Array): GMM => {
+  const sums = Array.from({ length: COMPONENTS }, () => new Float64Array(3));
+  const products = Array.from({ length: COMPONENTS }, () => new Float64Array(9));
+  const counts = new Float64Array(COMPONENTS);
+
+  for (const i of indices) {
+    const k = assignments[i];
+    const color = [pixels[i * 3], pixels[i * 3 + 1], pixels[i * 3 + 2]];
+    counts[k]++;
+    for (let p = 0; p < 3; p++) {
+      sums[k][p] += color[p];
+      for (let q = 0; q < 3; q++) products[k][p * 3 + q] += color[p] * color[q];
+    }
+  }
+
+  return Array.from({ length: COMPONENTS }, (_, k) => {
+    const n = counts[k];
+    if (n === 0) {
+      return { weight: 0, mean: new Float64Array(3), inverse: new Float64Array(9), determinant: 1 };
+    }
+
+    const mean = sums[k].map((value) => value / n);
+    const cov = new Float64Array(9);
+    for (let p = 0; p < 3; p++) {
+      for (let q = 0; q < 3; q++) cov[p * 3 + q] = products[k][p * 3 + q] / n - mean[p] * mean[q];
+    }
+
+    let determinant = 0;
+    for (let attempt = 0; attempt < 10; attempt++) {
+      determinant =
+        cov[0] * (cov[4] * cov[8] - cov[5] * cov[7]) -
+        cov[1] * (cov[3] * cov[8] - cov[5] * cov[6]) +
+        cov[2] * (cov[3] * cov[7] - cov[4] * cov[6]);
+      if (determinant > 1e-6) break;
+      // 纯色区域的协方差接近奇异，给对角线加上少量噪声
+      cov[0] += 0.01;
+      cov[4] += 0.01;
+      cov[8] += 0.01;
+    }
+
+    const inverse = new Float64Array([
+      (cov[4] * cov[8] - cov[5] * cov[7]) / determinant,
+      (cov[2] * cov[7] - cov[1] * cov[8]) / determinant,
+      (cov[1] * cov[5] - cov[2] * cov[4]) / determinant,
+      (cov[5] * cov[6] - cov[3] * cov[8]) / determinant,
+      (cov[0] * cov[8] - cov[2] * cov[6]) / determinant,
+      (cov[2] * cov[3] - cov[0] * cov[5]) / determinant,
+      (cov[3] * cov[7] - cov[4] * cov[6]) / determinant,
+      (cov[1] * cov[6] - cov[0] * cov[7]) / determinant,
+      (cov[0] * cov[4] - cov[1] * cov[3]) / determinant
+    ]);
+
+    return { weight: n / indices.length, mean, inverse, determinant };
+  });
+};
+
+// 用 k-means 给初始的分量归属
+const initAssignments = (pixels: Float64Array, indices: number[], assignments: Uint8Array) => {
+  if (indices.length === 0) return;
+  const random = mulberry32(indices.length);
+  const centers = Array.from({ length: COMPONENTS }, () => {
+    const i = indices[Math.floor(random() * indices.length)];
+    return [pixels[i * 3], pixels[i * 3 + 1], pixels[i * 3 + 2]];
+  });
+
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const i of indices) {
+      let best = 0;
+      let bestDistance = Infinity;
+      centers.forEach((center, k) => {
+        const d = (pixels[i * 3] - center[0]) ** 2 + (pixels[i * 3 + 1] - center[1]) ** 2 + (pixels[i * 3 + 2] - center[2]) ** 2;
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = k;
+        }
+      });
+      assignments[i] = best;
+      sums[best][0] += pixels[i * 3];
+      sums[best][1] += pixels[i * 3 + 1];
+      sums[best][2] += pixels[i * 3 + 2];
+      sums[best][3]++;
+    }
+    sums.forEach((sum, k) => {
+      if (sum[3] > 0) centers[k] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+  }
+};
+
+const splitByClass = (labels: Uint8Array) => {
+  const foreground: number[] = [];
+  const background: number[] = [];
+  labels.forEach((label, i) => (isForeground(label) ? foreground : background).push(i));
+  return { foreground, background };
+};
+
+// 相邻像素颜色越接近，切断它们的代价越高
+const computeNeighborWeights = (pixels: Float64Array, width: number, height: number) => {
+  const diff = (i: number, j: number) =>
+    (pixels[i * 3] - pixels[j * 3]) ** 2 +
+    (pixels[i * 3 + 1] - pixels[j * 3 + 1]) ** 2 +
+    (pixels[i * 3 + 2] - pixels[j * 3 + 2]) ** 2;
+
+  let total = 0;
+  let count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) { total += diff(i, i - 1); count++; }
+      if (x > 0 && y > 0) { total += diff(i, i - width - 1); count++; }
+      if (y > 0) { total += diff(i, i - width); count++; }
+      if (x < width - 1 && y > 0) { total += diff(i, i - width + 1); count++; }
+    }
+  }
+  const beta = total > 0 ? 1 / (2 * total / count) : 0;
+
+  const size = width * height;
+  const weights: GrabCutState['neighborWeights'] = [
+    new Float64Array(size), new Float64Array(size), new Float64Array(size), new Float64Array(size)
+  ];
+  const diagonal = GAMMA / Math.SQRT2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) weights[0][i] = GAMMA * Math.exp(-beta * diff(i, i - 1));
+      if (x > 0 && y > 0) weights[1][i] = diagonal * Math.exp(-beta * diff(i, i - width - 1));
+      if (y > 0) weights[2][i] = GAMMA * Math.exp(-beta * diff(i, i - width));
+      if (x < width - 1 && y > 0) weights[3][i] = diagonal * Math.exp(-beta * diff(i, i - width + 1));
+    }
+  }
+  return weights;
+};
+
+// 按面积平均把原图缩小到工作分辨率
+const downsample = (imageData: ImageData, width: number, height: number): Float64Array => {
+  const { data, width: sourceWidth, height: sourceHeight } = imageData;
+  const pixels = new Float64Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * sourceHeight / height);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * sourceHeight / height));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * sourceWidth / width);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * sourceWidth / width));
+      let r = 0, g = 0, b = 0, n = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const index = (sy * sourceWidth + sx) * 4;
+          r += data[index];
+          g += data[index + 1];
+          b += data[index + 2];
+          n++;
+        }
+      }
+      const i = y * width + x;
+      pixels[i * 3] = r / n;
+      pixels[i * 3 + 1] = g / n;
+      pixels[i * 3 + 2] = b / n;
+    }
+  }
+  return pixels;
+};
+
+// 选框外为确定背景，选框内为可能前景
+export const createGrabCut = (imageData: ImageData, rect: Rect): GrabCutState => {
+  const scale = Math.min(1, MAX_WORK_SIZE / Math.max(imageData.width, imageData.height));
+  const width = Math.max(1, Math.round(imageData.width * scale));
+  const height = Math.max(1, Math.round(imageData.height * scale));
+  const pixels = downsample(imageData, width, height);
+
+  const x0 = Math.max(0, Math.floor(rect.x * scale));
+  const y0 = Math.max(0, Math.floor(rect.y * scale));
+  const x1 = Math.min(width, Math.ceil((rect.x + rect.width) * scale));
+  const y1 = Math.min(height, Math.ceil((rect.y + rect.height) * scale));
+
+  const labels = new Uint8Array(width * height);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) labels[y * width + x] = PR_FGD;
+  }
+
+  const { foreground, background } = splitByClass(labels);
+  if (foreground.length === 0 || background.length === 0) {
+    throw new Error('选框必须位于图片内部，并在四周留出背景');
+  }
+
+  const assignments = new Uint8Array(width * height);
+  initAssignments(pixels, foreground, assignments);
+  initAssignments(pixels, background, assignments);
+
+  return {
+    width,
+    height,
+    scale,
+    pixels,
+    labels,
+    neighborWeights: computeNeighborWeights(pixels, width, height),
+    foreground: learnGMM(pixels, foreground, assignments),
+    background: learnGMM(pixels, background, assignments)
+  };
+};
+
+// 复制模型中会被迭代与笔画改写的部分；像素与平滑项权重只取决于原图与选框，可以共享
+export const cloneGrabCut = (state: GrabCutState): GrabCutState => ({ ...state, labels: state.labels.slice() });
+
+// 把修正笔画写入标签：涂抹过的像素成为确定前景或确定背景
+export const applyStrokes = (state: GrabCutState, strokes: MaskStroke[]) => {
+  const { width, height, scale, labels } = state;
+
+  const stamp = (cx: number, cy: number, radius: number, label: number) => {
+    const r = Math.max(1, radius);
+    for (let y = Math.max(0, Math.floor(cy - r)); y <= Math.min(height - 1, Math.ceil(cy + r)); y++) {
+      for (let x = Math.max(0, Math.floor(cx - r)); x <= Math.min(width - 1, Math.ceil(cx + r)); x++) {
+        if ((x - cx) ** 2 + (y - cy) ** 2 <= r * r) labels[y * width + x] = label;
+      }
+    }
+  };
+
+  for (const stroke of strokes) {
+    const label = stroke.mode === 'foreground' ? FGD : BGD;
+    const radius = stroke.radius * scale;
+    const points = stroke.points.map(([x, y]) => [x * scale, y * scale]);
+    points.forEach(([x, y], index) => {
+      if (index === 0) {
+        stamp(x, y, radius, label);
+        return;
+      }
+      // 沿线段插值，保证快速拖动时笔画连续
+      const [px, py] = points[index - 1];
+      const steps = Math.max(1, Math.ceil(Math.hypot(x - px, y - py) / Math.max(0.5, radius / 2)));
+      for (let s = 1; s <= steps; s++) {
+        stamp(px + (x - px) * s / steps, py + (y - py) * s / steps, radius, label);
+      }
+    });
+  }
+};
+
+// 迭代：分配高斯分量 → 重新学习 GMM → 构图求最小割 → 更新可能前景/背景标签
+export const iterateGrabCut = (state: GrabCutState, iterations: number) => {
+  const { width, height, pixels, labels, neighborWeights } = state;
+  const size = width * height;
+  const assignments = new Uint8Array(size);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let i = 0; i < size; i++) {
+      const gmm = isForeground(labels[i]) ? state.foreground : state.background;
+      assignments[i] = mostLikelyComponent(gmm, pixels[i * 3], pixels[i * 3 + 1], pixels[i * 3 + 2]);
+    }
+
+    const { foreground, background } = splitByClass(labels);
+    if (foreground.length === 0 || background.length === 0) break;
+    state.foreground = learnGMM(pixels, foreground, assignments);
+    state.background = learnGMM(pixels, background, assignments);
+
+    const graph = new MaxFlowGraph(size, size * 4);
+    for (let i = 0; i < size; i++) {
+      const r = pixels[i * 3];
+      const g = pixels[i * 3 + 1];
+      const b = pixels[i * 3 + 2];
+      const label = labels[i];
+
+      // 源点代表前景，汇点代表背景
+      let fromSource: number;
+      let toSink: number;
+      if (label === PR_BGD || label === PR_FGD) {
+        fromSource = -Math.log(gmmLikelihood(state.background, r, g, b) + 1e-300);
+        toSink = -Math.log(gmmLikelihood(state.foreground, r, g, b) + 1e-300);
+      } else if (label === BGD) {
+        fromSource = 0;
+        toSink = LAMBDA;
+      } else {
+        fromSource = LAMBDA;
+        toSink = 0;
+      }
+      graph.addTerminalWeights(i, fromSource, toSink);
+
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x > 0) graph.addEdge(i, i - 1, neighborWeights[0][i], neighborWeights[0][i]);
+      if (x > 0 && y > 0) graph.addEdge(i, i - width - 1, neighborWeights[1][i], neighborWeights[1][i]);
+      if (y > 0) graph.addEdge(i, i - width, neighborWeights[2][i], neighborWeights[2][i]);
+      if (x < width - 1 && y > 0) graph.addEdge(i, i - width + 1, neighborWeights[3][i], neighborWeights[3][i]);
+    }
+
+    graph.maxflow();
+
+    for (let i = 0; i < size; i++) {
+      if (labels[i] === PR_BGD || labels[i] === PR_FGD) {
+        labels[i] = graph.inSourceSegment(i) ? PR_FGD : PR_BGD;
+      }
+    }
+  }
+};
+
+// 放大回原图尺寸：远离分割边界的像素直接取工作分辨率的标签；边界附近的窄带在原图分辨率下重新求一次最小割，
+// 得到逐像素准确的边界而不是放大后的锯齿。缩小时的平均抹掉了噪声，工作分辨率的 GMM 对原图像素过于严格，
+// 因此改用窄带外侧环带内的原图像素重新学习前景/背景 GMM
+export const grabCutAlpha = (state: GrabCutState, imageData: ImageData): Float32Array => {
+  const { width: workWidth, height: workHeight, labels } = state;
+  const { data, width, height } = imageData;
+  const size = width * height;
+  const alpha = new Float32Array(size);
+
+  // 工作分辨率下每个像素到另一类像素的切比雪夫距离，超过 RING_RADIUS 的记为 RING_RADIUS + 1
+  const level = new Uint8Array(workWidth * workHeight).fill(RING_RADIUS + 1);
+  for (let y = 0; y < workHeight; y++) {
+    for (let x = 0; x < workWidth; x++) {
+      const fg = isForeground(labels[y * workWidth + x]);
+      for (let dy = -RING_RADIUS; dy <= RING_RADIUS; dy++) {
+        for (let dx = -RING_RADIUS; dx <= RING_RADIUS; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= workWidth || ny >= workHeight) continue;
+          if (isForeground(labels[ny * workWidth + nx]) !== fg) {
+            level[y * workWidth + x] = Math.min(level[y * workWidth + x], Math.max(Math.abs(dx), Math.abs(dy)));
+          }
+        }
+      }
+    }
+  }
+
+  // 边界带内未被笔画确定的像素作为图节点，其余像素的标签固定；环带内的像素留作颜色采样
+  const nodeOf = new Int32Array(size).fill(-1);
+  const bandPixels: number[] = [];
+  const ring: [number[], number[]] = [[], []];
+  for (let y = 0; y < height; y++) {
+    const wy = Math.min(workHeight - 1, Math.floor(y * workHeight / height));
+    for (let x = 0; x < width; x++) {
+      const w = wy * workWidth + Math.min(workWidth - 1, Math.floor(x * workWidth / width));
+      const label = labels[w];
+      const i = y * width + x;
+      alpha[i] = isForeground(label) ? 1 : 0;
+      if (state.scale >= 1) continue;
+      if (level[w] <= BOUNDARY_RADIUS && (label === PR_BGD || label === PR_FGD)) {
+        nodeOf[i] = bandPixels.length;
+        bandPixels.push(i);
+      } else if (level[w] <= RING_RADIUS) {
+        ring[isForeground(label) ? 1 : 0].push(i);
+      }
+    }
+  }
+  if (bandPixels.length === 0) return alpha;
+
+  // 用环带内的原图像素学习 GMM，采样不足时沿用工作分辨率的模型
+  const learnRingGMM = (indices: number[], fallback: GMM): GMM => {
+    if (indices.length < COMPONENTS * 10) return fallback;
+    const step = Math.max(1, Math.ceil(indices.length / MAX_RING_SAMPLES));
+    const count = Math.ceil(indices.length / step);
+    const pixels = new Float64Array(count * 3);
+    for (let k = 0; k < count; k++) {
+      const i = indices[k * step];
+      pixels[k * 3] = data[i * 4];
+      pixels[k * 3 + 1] = data[i * 4 + 1];
+      pixels[k * 3 + 2] = data[i * 4 + 2];
+    }
+    const local = Array.from({ length: count }, (_, k) => k);
+    const assignments = new Uint8Array(count);
+    initAssignments(pixels, local, assignments);
+    return learnGMM(pixels, local, assignments);
+  };
+  const background = learnRingGMM(ring[0], state.background);
+  const foreground = learnRingGMM(ring[1], state.foreground);
+
+  const diff = (i: number, j: number) =>
+    (data[i * 4] - data[j * 4]) ** 2 +
+    (data[i * 4 + 1] - data[j * 4 + 1]) ** 2 +
+    (data[i * 4 + 2] - data[j * 4 + 2]) ** 2;
+
+  // 八邻域，按 (dx, dy, 权重系数)
+  const neighbours: [number, number, number][] = [
+    [-1, 0, 1], [1, 0, 1], [0, -1, 1], [0, 1, 1],
+    [-1, -1, Math.SQRT1_2], [1, -1, Math.SQRT1_2], [-1, 1, Math.SQRT1_2], [1, 1, Math.SQRT1_2]
+  ];
+
+  // 对比度参数 beta 只在边界带内统计
+  let total = 0;
+  let count = 0;
+  for (const i of bandPixels) {
+    const x = i % width;
+    if (x > 0) { total += diff(i, i - 1); count++; }
+    if (i >= width) { total += diff(i, i - width); count++; }
+  }
+  const beta = total > 0 ? 1 / (2 * total / count) : 0;
+
+  const graph = new MaxFlowGraph(bandPixels.length, bandPixels.length * 4);
+  bandPixels.forEach((i, node) => {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    let fromSource = -Math.log(gmmLikelihood(background, r, g, b) + 1e-300);
+    let toSink = -Math.log(gmmLikelihood(foreground, r, g, b) + 1e-300);
+
+    const x = i % width;
+    const y = (i - x) / width;
+    for (const [dx, dy, factor] of neighbours) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const j = ny * width + nx;
+      const weight = GAMMA * factor * Math.exp(-beta * diff(i, j));
+      if (nodeOf[j] >= 0) {
+        // 每对相邻节点只加一次边
+        if (j < i) graph.addEdge(node, nodeOf[j], weight, weight);
+      } else if (alpha[j] === 1) {
+        fromSource += weight;
+      } else {
+        toSink += weight;
+      }
+    }
+    graph.addTerminalWeights(node, fromSource, toSink);
+  });
+
+  graph.maxflow();
+  bandPixels.forEach((i, node) => {
+    alpha[i] = graph.inSourceSegment(node) ? 1 : 0;
+  });
+
+  return alpha;
+};
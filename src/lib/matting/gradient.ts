@@ -0,0 +1,245 @@
+// 渐变背景模型：用边缘采样为每个通道拟合平滑的多项式曲面，逐像素与该位置的预测背景色比较
+import { ColorDistanceFn, RGB } from '@/lib/matting/color';
+import { BorderSample } from '@/lib/matting/sampling';
+
+// 1 = 平面，2 = 二次曲面
+export type GradientDegree = 1 | 2;
+
+export interface GradientModel {
+  degree: GradientDegree;
+  width: number;
+  height: number;
+  // r、g、b 三个通道的多项式系数
+  coefficients: [Float64Array, Float64Array, Float64Array];
+  // 拟合时保留的采样比例，其余被视为接触边缘的主体
+  inlierRatio: number;
+  // 采样在横、纵方向上是否铺开；未铺开的方向无法确定渐变，按常数处理
+  axes: { x: boolean; y: boolean };
+}
+
+const ROBUST_ITERATIONS = 3;
+// 残差阈值的下限（RGB 单位），避免纯色背景下把噪声当作离群
+const MIN_RESIDUAL_THRESHOLD = 8;
+// 采样在某个方向上的跨度（归一化坐标，全幅为 2）小于该值时不拟合该方向
+const MIN_AXIS_SPAN = 0.5;
+
+// 坐标归一化到 [-1, 1] 后的多项式基函数
+const fillBasis = (u: number, v: number, degree: GradientDegree, out: Float64Array) => {
+  out[0] = 1;
+  out[1] = u;
+  out[2] = v;
+  if (degree === 2) {
+    out[3] = u * u;
+    out[4] = u * v;
+    out[5] = v * v;
+  }
+};
+
+const basisSize = (degree: GradientDegree) => (degree === 2 ? 6 : 3);
+
+// 各基函数用到的方向：1、u、v、u²、uv、v²
+const TERM_AXES: { x: boolean; y: boolean }[] = [
+  { x: false, y: false },
+  { x: true, y: false },
+  { x: false, y: true },
+  { x: true, y: false },
+  { x: true, y: true },
+  { x: false, y: true }
+];
+
+// 高斯消元求解 n×n 线性方程组（部分主元）
+const solve = (matrix: Float64Array[], rhs: Float64Array): Float64Array => {
+  const n = rhs.length;
+  const a = matrix.map((row) => row.slice());
+  const b = rhs.slice();
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    const diagonal = a[col][col] || 1e-12;
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / diagonal;
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Float64Array(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / (a[row][row] || 1e-12);
+  }
+  return x;
+};
+
+const normalize = (value: number, size: number) => (size > 1 ? (value / (size - 1)) * 2 - 1 : 0);
+
+// basis 可复用，避免逐像素预测时反复分配
+export const predictBackground = (
+  model: GradientModel,
+  x: number,
+  y: number,
+  basis: Float64Array = new Float64Array(6)
+): RGB => {
+  const n = basisSize(model.degree);
+  fillBasis(normalize(x, model.width), normalize(y, model.height), model.degree, basis);
+
+  const channel = (coefficients: Float64Array) => {
+    let value = 0;
+    for (let k = 0; k < n; k++) value += coefficients[k] * basis[k];
+    return Math.min(255, Math.max(0, Math.round(value)));
+  };
+
+  return {
+    r: channel(model.coefficients[0]),
+    g: channel(model.coefficients[1]),
+    b: channel(model.coefficients[2])
+  };
+};
+
+// 加权最小二乘拟合，每轮按残差中位数剔除离群采样后重新拟合；
+// 只有一条边或集中在一小块区域的采样只拟合铺开的方向，否则相关的基函数共线，外推会严重失真
+export const fitGradientBackground = (
+  samples: BorderSample[],
+  width: number,
+  height: number,
+  degree: GradientDegree
+): GradientModel => {
+  const n = basisSize(degree);
+  const bases = samples.map((sample) => {
+    const basis = new Float64Array(n);
+    fillBasis(normalize(sample.x, width), normalize(sample.y, height), degree, basis);
+    return basis;
+  });
+  const span = (axis: number) => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const basis of bases) {
+      min = Math.min(min, basis[axis]);
+      max = Math.max(max, basis[axis]);
+    }
+    return bases.length ? max - min : 0;
+  };
+  const axes = { x: span(1) >= MIN_AXIS_SPAN, y: span(2) >= MIN_AXIS_SPAN };
+  const terms = TERM_AXES.slice(0, n).flatMap((uses, k) => ((!uses.x || axes.x) && (!uses.y || axes.y) ? [k] : []));
+  const m = terms.length;
+
+  const weights = new Float64Array(samples.length).fill(1);
+  let model: GradientModel = {
+    degree,
+    width,
+    height,
+    coefficients: [new Float64Array(n), new Float64Array(n), new Float64Array(n)],
+    inlierRatio: 1,
+    axes
+  };
+
+  for (let iteration = 0; iteration < ROBUST_ITERATIONS; iteration++) {
+    // 只对参与拟合的基函数建立法方程，其余系数保持为 0
+    const normal = Array.from({ length: m }, () => new Float64Array(m));
+    const rhs = [new Float64Array(m), new Float64Array(m), new Float64Array(m)];
+
+    samples.forEach((sample, i) => {
+      if (!weights[i]) return;
+      const basis = bases[i];
+      for (let p = 0; p < m; p++) {
+        for (let q = 0; q < m; q++) normal[p][q] += basis[terms[p]] * basis[terms[q]];
+        rhs[0][p] += basis[terms[p]] * sample.r;
+        rhs[1][p] += basis[terms[p]] * sample.g;
+        rhs[2][p] += basis[terms[p]] * sample.b;
+      }
+    });
+
+    // 微小的岭项防止采样不足时矩阵奇异
+    for (let p = 0; p < m; p++) normal[p][p] += 1e-6;
+
+    const expand = (solution: Float64Array) => {
+      const coefficients = new Float64Array(n);
+      terms.forEach((term, p) => { coefficients[term] = solution[p]; });
+      return coefficients;
+    };
+    model = {
+      ...model,
+      coefficients: [
+        expand(solve(normal, rhs[0])),
+        expand(solve(normal, rhs[1])),
+        expand(solve(normal, rhs[2]))
+      ]
+    };
+
+    const residuals = samples.map((sample) => {
+      const predicted = predictBackground(model, sample.x, sample.y);
+      return Math.sqrt(
+        (sample.r - predicted.r) ** 2 + (sample.g - predicted.g) ** 2 + (sample.b - predicted.b) ** 2
+      );
+    });
+    const sorted = [...residuals].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)] ?? 0;
+    const threshold = Math.max(MIN_RESIDUAL_THRESHOLD, 2.5 * 1.4826 * median);
+
+    let inliers = 0;
+    residuals.forEach((residual, i) => {
+      weights[i] = residual <= threshold ? 1 : 0;
+      inliers += weights[i];
+    });
+    model.inlierRatio = samples.length ? inliers / samples.length : 1;
+  }
+
+  return model;
+};
+
+// 每个像素到其所在位置预测背景色的距离
+export const computeGradientDistanceMap = (
+  imageData: ImageData,
+  model: GradientModel,
+  colorDistance: ColorDistanceFn
+): Float32Array => {
+  const { data, width, height } = imageData;
+  const distances = new Float32Array(width * height);
+  const basis = new Float64Array(6);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const predicted = predictBackground(model, x, y, basis);
+      distances[i] = colorDistance(
+        data[i * 4], data[i * 4 + 1], data[i * 4 + 2],
+        predicted.r, predicted.g, predicted.b
+      );
+    }
+  }
+
+  return distances;
+};
+
+// 生成拟合结果的缩略图，便于在界面上确认渐变方向
+export const renderGradientPreview = (model: GradientModel, size: number): string => {
+  const scale = size / Math.max(model.width, model.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(model.width * scale));
+  canvas.height = Math.max(1, Math.round(model.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法获取画布上下文');
+
+  const preview = ctx.createImageData(canvas.width, canvas.height);
+  const basis = new Float64Array(6);
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      const { r, g, b } = predictBackground(model, x / scale, y / scale, basis);
+      const index = (y * canvas.width + x) * 4;
+      preview.data[index] = r;
+      preview.data[index + 1] = g;
+      preview.data[index + 2] = b;
+      preview.data[index + 3] = 255;
+    }
+  }
+
+  ctx.putImageData(preview, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,146 @@
+// 直方图峰值检测背景色：统计整幅图像的三维颜色直方图，取主要峰值为候选，并按其在画面中分布的广度加权，
+// 适用于主体几乎占满画面、边缘采样会混入主体颜色的情况
+import { DistanceMetric, METRIC_PROFILES, getColorDistance } from '@/lib/matting/color';
+import { PaletteCluster } from '@/lib/matting/palette';
+
+export interface HistogramPeak extends PaletteCluster {
+  // 该颜色在画面中分布的广度（0–1），背景通常环绕主体或散落各处，主体颜色集中在一处
+  spread: number;
+  // 占比 × 分布广度，候选按该值从高到低排序
+  score: number;
+}
+
+// 每个通道 32 个区间
+const BIN_BITS = 5;
+const BINS = 1 << BIN_BITS;
+// 统计分布广度的网格
+const GRID = 8;
+// 均匀分布在整个网格上时位置的方差（横纵两个方向之和）
+const UNIFORM_VARIANCE = 2 * (1 - 1 / (GRID * GRID)) / 12;
+// 峰值邻域占比低于该值的忽略
+const MIN_PEAK_WEIGHT = 0.01;
+// 分布广度低于该值、或得分不到最高分该比例的候选视为主体颜色
+const MIN_SPREAD = 0.3;
+const MIN_RELATIVE_SCORE = 0.5;
+const MAX_PEAKS = 6;
+
+// 分布广度：按网格统计该颜色位置的标准差，以均匀铺满画面时的标准差归一化；
+// 环绕主体或散落各处的背景接近 1，集中成一块的主体颜色较小
+const spatialSpread = (cells: Float64Array, count: number) => {
+  let mx = 0;
+  let my = 0;
+  for (let c = 0; c < cells.length; c++) {
+    mx += cells[c] * ((c % GRID) + 0.5) / GRID;
+    my += cells[c] * (Math.floor(c / GRID) + 0.5) / GRID;
+  }
+  mx /= count;
+  my /= count;
+  let variance = 0;
+  for (let c = 0; c < cells.length; c++) {
+    const dx = ((c % GRID) + 0.5) / GRID - mx;
+    const dy = (Math.floor(c / GRID) + 0.5) / GRID - my;
+    variance += cells[c] * (dx * dx + dy * dy);
+  }
+  return Math.min(1, Math.sqrt(variance / count / UNIFORM_VARIANCE));
+};
+
+const binIndex = (r: number, g: number, b: number) =>
+  ((r >> (8 - BIN_BITS)) * BINS + (g >> (8 - BIN_BITS))) * BINS + (b >> (8 - BIN_BITS));
+
+export const detectHistogramPeaks = (imageData: ImageData, metric: DistanceMetric): HistogramPeak[] => {
+  const { data, width, height } = imageData;
+  const total = width * height;
+  if (total === 0) return [];
+
+  const binCount = BINS * BINS * BINS;
+  const counts = new Uint32Array(binCount);
+  const sums = new Float64Array(binCount * 3);
+  const cellCounts = new Uint32Array(binCount * GRID * GRID);
+
+  for (let y = 0; y < height; y++) {
+    const cellY = Math.floor(y * GRID / height);
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const bin = binIndex(data[i], data[i + 1], data[i + 2]);
+      counts[bin]++;
+      sums[bin * 3] += data[i];
+      sums[bin * 3 + 1] += data[i + 1];
+      sums[bin * 3 + 2] += data[i + 2];
+      cellCounts[bin * GRID * GRID + cellY * GRID + Math.floor(x * GRID / width)]++;
+    }
+  }
+
+  // 遍历某个区间及其 26 个相邻区间
+  const forNeighbours = (bin: number, visit: (neighbour: number) => void) => {
+    const rb = Math.floor(bin / (BINS * BINS));
+    const gb = Math.floor(bin / BINS) % BINS;
+    const bb = bin % BINS;
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dg = -1; dg <= 1; dg++) {
+        for (let db = -1; db <= 1; db++) {
+          const r = rb + dr;
+          const g = gb + dg;
+          const b = bb + db;
+          if (r < 0 || g < 0 || b < 0 || r >= BINS || g >= BINS || b >= BINS) continue;
+          visit((r * BINS + g) * BINS + b);
+        }
+      }
+    }
+  };
+
+  const peaks: HistogramPeak[] = [];
+  for (let bin = 0; bin < binCount; bin++) {
+    if (counts[bin] === 0) continue;
+    let isPeak = true;
+    forNeighbours(bin, (neighbour) => {
+      // 计数相同的相邻区间只保留下标较小的一个
+      if (counts[neighbour] > counts[bin] || (counts[neighbour] === counts[bin] && neighbour < bin)) isPeak = false;
+    });
+    if (!isPeak) continue;
+
+    // 峰值颜色与占比取自整个邻域，避免颜色恰好落在区间边界时被拆散
+    let count = 0;
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    const cells = new Float64Array(GRID * GRID);
+    forNeighbours(bin, (neighbour) => {
+      count += counts[neighbour];
+      r += sums[neighbour * 3];
+      g += sums[neighbour * 3 + 1];
+      b += sums[neighbour * 3 + 2];
+      for (let c = 0; c < GRID * GRID; c++) cells[c] += cellCounts[neighbour * GRID * GRID + c];
+    });
+    const weight = count / total;
+    if (weight < MIN_PEAK_WEIGHT) continue;
+
+    const spread = spatialSpread(cells, count);
+    peaks.push({
+      r: Math.round(r / count),
+      g: Math.round(g / count),
+      b: Math.round(b / count),
+      weight,
+      sides: 0,
+      spread,
+      score: weight * spread,
+      rejected: false
+    });
+  }
+
+  // 合并颜色过于接近的峰值，保留得分高的一个
+  const colorDistance = getColorDistance(metric);
+  const groupThreshold = METRIC_PROFILES[metric].groupThreshold;
+  const merged: HistogramPeak[] = [];
+  for (const peak of peaks.sort((a, b) => b.score - a.score)) {
+    if (merged.some((m) => colorDistance(m.r, m.g, m.b, peak.r, peak.g, peak.b) < groupThreshold)) continue;
+    merged.push(peak);
+    if (merged.length === MAX_PEAKS) break;
+  }
+
+  // 得分最高的候选始终作为背景色
+  merged.forEach((peak, index) => {
+    peak.rejected = index > 0 && (peak.spread < MIN_SPREAD || peak.score < merged[0].score * MIN_RELATIVE_SCORE);
+  });
+
+  return merged;
+};
@@ -0,0 +1,35 @@
+// 软抠像：根据像素到背景色的距离生成连续的 alpha，而不是非黑即白的二值切割
+import { ColorDistanceFn, RGB } from '@/lib/matting/color';
+
+// 每个像素到最近背景色的距离；scales 为各背景色的距离缩放，用于让单独设置容差的颜色与全局容差可比
+export const computeDistanceMap = (
+  imageData: ImageData,
+  backgroundColors: RGB[],
+  colorDistance: ColorDistanceFn,
+  scales?: number[]
+): Float32Array => {
+  const data = imageData.data;
+  const total = imageData.width * imageData.height;
+  const distances = new Float32Array(total).fill(Infinity);
+
+  for (let i = 0; i < total; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+
+    backgroundColors.forEach((bgColor, k) => {
+      const distance = colorDistance(r, g, b, bgColor.r, bgColor.g, bgColor.b) * (scales?.[k] ?? 1);
+      if (distance < distances[i]) distances[i] = distance;
+    });
+  }
+
+  return distances;
+};
+
+// 距离不超过 inner 为完全背景（0），不小于 outer 为完全前景（1），中间用 smoothstep 平滑过渡
+export const keyAlpha = (distance: number, inner: number, outer: number): number => {
+  if (distance <= inner) return 0;
+  if (distance >= outer) return 1;
+  const t = (distance - inner) / (outer - inner);
+  return t * t * (3 - 2 * t);
+};
@@ -0,0 +1,39 @@
+// 套索选区：以原图坐标的矢量路径保存，合成时按原图分辨率光栅化，再与当前蒙版做布尔运算
+import { Point } from '@/lib/matting/polygon';
+
+export type LassoTool = 'polygon' | 'freehand';
+export type LassoOperation = 'add' | 'subtract' | 'intersect';
+
+export interface LassoSelection {
+  id: number;
+  operation: LassoOperation;
+  points: Point[];
+}
+
+// 覆盖率按软布尔运算合并，选区边缘的抗锯齿得以保留
+const combine = (alpha: number, coverage: number, operation: LassoOperation) => {
+  switch (operation) {
+    case 'add':
+      return alpha + (1 - alpha) * coverage;
+    case 'subtract':
+      return alpha * (1 - coverage);
+    case 'intersect':
+      return alpha * coverage;
+  }
+};
+
+// rasterize 允许调用方缓存每个选区的覆盖率
+export const applyLassoSelections = (
+  alpha: Float32Array,
+  selections: LassoSelection[],
+  rasterize: (selection: LassoSelection) => Float32Array
+): Float32Array => {
+  const result = alpha.slice();
+  for (const selection of selections) {
+    const coverage = rasterize(selection);
+    for (let i = 0; i < result.length; i++) {
+      result[i] = combine(result[i], coverage[i], selection.operation);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,183 @@
+// 智能剪刀（Mortensen & Barrett 1995）：以梯度为代价在像素图上做 Dijkstra，路径吸附到最强的边缘
+import { Point } from '@/lib/matting/polygon';
+
+export interface LiveWireGraph {
+  // 工作分辨率及相对原图的缩放比例
+  width: number;
+  height: number;
+  scale: number;
+  // 每个像素的通行代价，边缘处接近 0
+  cost: Float32Array;
+}
+
+// 锚点为用户点击的位置，segments[i] 为 anchors[i] 到下一个锚点（闭合时最后一段回到起点）的路径
+export interface LiveWirePath {
+  anchors: Point[];
+  segments: Point[][];
+  closed: boolean;
+}
+
+// 在不超过该尺寸的缩小图上求最短路径，保证移动鼠标时能实时更新
+const WORK_SIZE = 512;
+// 路径长度的基础代价，避免在弱纹理区域绕远路
+const LENGTH_COST = 0.05;
+
+export const createLiveWire = (imageData: ImageData): LiveWireGraph => {
+  const { data } = imageData;
+  const scale = Math.min(1, WORK_SIZE / Math.max(imageData.width, imageData.height));
+  const width = Math.max(1, Math.round(imageData.width * scale));
+  const height = Math.max(1, Math.round(imageData.height * scale));
+
+  // 最近邻缩小为灰度图，再做 3×3 均值平滑抑制噪声
+  const grey = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(imageData.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(imageData.width - 1, Math.floor(x / scale));
+      const p = (sy * imageData.width + sx) * 4;
+      grey[y * width + x] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    }
+  }
+  const at = (source: Float32Array, x: number, y: number) =>
+    source[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+  const smooth = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) sum += at(grey, x + dx, y + dy);
+      }
+      smooth[y * width + x] = sum / 9;
+    }
+  }
+
+  // Sobel 梯度幅值，归一化后取反作为代价
+  const magnitude = new Float32Array(width * height);
+  let maxMagnitude = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(smooth, x + 1, y - 1) + 2 * at(smooth, x + 1, y) + at(smooth, x + 1, y + 1)
+        - at(smooth, x - 1, y - 1) - 2 * at(smooth, x - 1, y) - at(smooth, x - 1, y + 1);
+      const gy = at(smooth, x - 1, y + 1) + 2 * at(smooth, x, y + 1) + at(smooth, x + 1, y + 1)
+        - at(smooth, x - 1, y - 1) - 2 * at(smooth, x, y - 1) - at(smooth, x + 1, y - 1);
+      const value = Math.hypot(gx, gy);
+      magnitude[y * width + x] = value;
+      if (value > maxMagnitude) maxMagnitude = value;
+    }
+  }
+
+  const cost = new Float32Array(width * height);
+  for (let i = 0; i < cost.length; i++) {
+    cost[i] = (maxMagnitude > 0 ? 1 - magnitude[i] / maxMagnitude : 1) + LENGTH_COST;
+  }
+
+  return { width, height, scale, cost };
+};
+
+const toWork = (graph: LiveWireGraph, [x, y]: Point): number => {
+  const wx = Math.min(graph.width - 1, Math.max(0, Math.floor(x * graph.scale)));
+  const wy = Math.min(graph.height - 1, Math.max(0, Math.floor(y * graph.scale)));
+  return wy * graph.width + wx;
+};
+
+// 二叉最小堆，允许同一节点重复入堆，出堆时跳过已确定的节点
+class MinHeap {
+  private nodes: number[] = [];
+  private keys: number[] = [];
+
+  get size() {
+    return this.nodes.length;
+  }
+
+  push(node: number, key: number) {
+    let i = this.nodes.length;
+    this.nodes.push(node);
+    this.keys.push(key);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= key) break;
+      this.nodes[i] = this.nodes[parent];
+      this.keys[i] = this.keys[parent];
+      i = parent;
+    }
+    this.nodes[i] = node;
+    this.keys[i] = key;
+  }
+
+  pop(): number {
+    const top = this.nodes[0];
+    const node = this.nodes.pop() as number;
+    const key = this.keys.pop() as number;
+    const length = this.nodes.length;
+    if (length > 0) {
+      let i = 0;
+      while (true) {
+        let child = i * 2 + 1;
+        if (child >= length) break;
+        if (child + 1 < length && this.keys[child + 1] < this.keys[child]) child++;
+        if (this.keys[child] >= key) break;
+        this.nodes[i] = this.nodes[child];
+        this.keys[i] = this.keys[child];
+        i = child;
+      }
+      this.nodes[i] = node;
+      this.keys[i] = key;
+    }
+    return top;
+  }
+}
+
+// 从种子出发求到所有像素的最短路径树，返回每个节点的前驱（种子为 -1）
+export const shortestPathTree = (graph: LiveWireGraph, seed: Point): Int32Array => {
+  const { width, height, cost } = graph;
+  const total = width * height;
+  const distance = new Float32Array(total).fill(Infinity);
+  const parent = new Int32Array(total).fill(-1);
+  const done = new Uint8Array(total);
+  const heap = new MinHeap();
+
+  const start = toWork(graph, seed);
+  distance[start] = 0;
+  heap.push(start, 0);
+
+  while (heap.size > 0) {
+    const node = heap.pop();
+    if (done[node]) continue;
+    done[node] = 1;
+
+    const x = node % width;
+    const y = (node - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      const ny = y + dy;
+      if (ny < 0 || ny >= height) continue;
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        if ((dx === 0 && dy === 0) || nx < 0 || nx >= width) continue;
+        const next = ny * width + nx;
+        if (done[next]) continue;
+        const step = cost[next] * (dx !== 0 && dy !== 0 ? Math.SQRT2 : 1);
+        if (distance[node] + step < distance[next]) {
+          distance[next] = distance[node] + step;
+          parent[next] = node;
+          heap.push(next, distance[next]);
+        }
+      }
+    }
+  }
+
+  return parent;
+};
+
+// 沿前驱回溯到种子，得到种子到目标的路径（原图坐标，取工作像素中心）
+export const tracePath = (graph: LiveWireGraph, parents: Int32Array, target: Point): Point[] => {
+  const path: Point[] = [];
+  for (let node = toWork(graph, target); node >= 0; node = parents[node]) {
+    const x = node % graph.width;
+    const y = (node - x) / graph.width;
+    path.push([(x + 0.5) / graph.scale, (y + 0.5) / graph.scale]);
+  }
+  return path.reverse();
+};
+
+// 闭合路径的全部顶点，依次连接各段
+export const pathOutline = (path: LiveWirePath): Point[] => path.segments.flat();
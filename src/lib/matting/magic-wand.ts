@@ -0,0 +1,99 @@
+// 魔棒点选：从种子点出发生长颜色相近的连通区域，标记为背景或前景并与自动蒙版合并
+import { ColorDistanceFn } from '@/lib/matting/color';
+
+export type SeedMode = 'background' | 'foreground';
+
+export interface WandSeed {
+  id: number;
+  // 原图像素坐标
+  x: number;
+  y: number;
+  mode: SeedMode;
+  // 容差，占当前颜色距离量程的百分比
+  tolerance: number;
+}
+
+export interface WandRegion {
+  mode: SeedMode;
+  region: Uint8Array;
+}
+
+// 种子颜色取 3×3 邻域均值，避免点在噪点上
+const seedColor = ({ data, width, height }: ImageData, x: number, y: number): [number, number, number] => {
+  let r = 0, g = 0, b = 0, count = 0;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const px = x + dx;
+      const py = y + dy;
+      if (px < 0 || py < 0 || px >= width || py >= height) continue;
+      const index = (py * width + px) * 4;
+      r += data[index];
+      g += data[index + 1];
+      b += data[index + 2];
+      count++;
+    }
+  }
+  return [r / count, g / count, b / count];
+};
+
+// 四邻域生长：与种子颜色距离不超过 threshold 的连通像素
+export const growRegion = (
+  imageData: ImageData,
+  x: number,
+  y: number,
+  threshold: number,
+  colorDistance: ColorDistanceFn
+): Uint8Array => {
+  const { data, width, height } = imageData;
+  const region = new Uint8Array(width * height);
+  const sx = Math.min(width - 1, Math.max(0, Math.round(x)));
+  const sy = Math.min(height - 1, Math.max(0, Math.round(y)));
+  const [sr, sg, sb] = seedColor(imageData, sx, sy);
+
+  // 0: 未访问，1: 已入队，2: 已判定不属于区域
+  const visited = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+  queue[tail++] = sy * width + sx;
+  visited[sy * width + sx] = 1;
+
+  while (head < tail) {
+    const index = queue[head++];
+    const p = index * 4;
+    if (colorDistance(data[p], data[p + 1], data[p + 2], sr, sg, sb) > threshold) {
+      visited[index] = 2;
+      continue;
+    }
+    region[index] = 1;
+
+    const px = index % width;
+    const py = (index - px) / width;
+    const neighbours = [
+      px > 0 ? index - 1 : -1,
+      px < width - 1 ? index + 1 : -1,
+      py > 0 ? index - width : -1,
+      py < height - 1 ? index + width : -1
+    ];
+    for (const next of neighbours) {
+      if (next >= 0 && !visited[next]) {
+        visited[next] = 1;
+        queue[tail++] = next;
+      }
+    }
+  }
+
+  return region;
+};
+
+// 按种子顺序合并，后添加的种子覆盖先前的结果：背景区域置 0，前景区域置 1
+export const applyWandRegions = (alpha: Float32Array, regions: WandRegion[]): Float32Array => {
+  const result = alpha.slice();
+  for (const { mode, region } of regions) {
+    const value = mode === 'background' ? 0 : 1;
+    for (let i = 0; i < result.length; i++) {
+      if (region[i]) result[i] = value;
+    }
+  }
+  return result;
+};
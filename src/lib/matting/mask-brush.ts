@@ -0,0 +1,114 @@
+// 手动修补蒙版：擦除/恢复笔刷画在独立的编辑层上，重新运行自动抠图后依然保留
+import { Rect } from '@/lib/matting/grabcut';
+
+export type BrushMode = 'erase' | 'restore';
+
+export interface BrushSettings {
+  // 笔刷直径（原图像素）
+  size: number;
+  // 硬度 0–1：笔刷中心完全生效的半径占比，其外平滑衰减到 0
+  hardness: number;
+  // 单笔的最大作用强度 0–1，同一笔内重叠的笔触不会累加
+  opacity: number;
+}
+
+// [x, y, 压感]，压感 0–1 缩放笔刷半径
+export type BrushPoint = [number, number, number];
+
+export interface BrushStroke extends BrushSettings {
+  mode: BrushMode;
+  points: BrushPoint[];
+}
+
+// 编辑层：每个像素取值 -1–1，-1 为完全擦除，1 为完全恢复，0 为保持自动结果
+export const createEditMask = (width: number, height: number) => new Float32Array(width * height);
+
+// 笔触之间的间距占半径的比例
+const DAB_SPACING = 0.25;
+
+const brushRadius = (size: number, pressure: number) => Math.max(0.5, size / 2 * pressure);
+
+// 一笔可能影响的范围（已裁剪到图像内），完全落在图像外时为 null
+export const strokeBounds = (stroke: BrushStroke, width: number, height: number): Rect | null => {
+  if (stroke.points.length === 0) return null;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity, radius = 0;
+  for (const [x, y, pressure] of stroke.points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+    radius = Math.max(radius, brushRadius(stroke.size, pressure));
+  }
+  const x0 = Math.max(0, Math.floor(minX - radius));
+  const y0 = Math.max(0, Math.floor(minY - radius));
+  const x1 = Math.min(width - 1, Math.ceil(maxX + radius));
+  const y1 = Math.min(height - 1, Math.ceil(maxY + radius));
+  if (x0 > x1 || y0 > y1) return null;
+  return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+};
+
+// 把一笔光栅化到编辑层：先在笔画范围内求整笔的覆盖率（取各笔触最大值），再按不透明度向目标值混合
+export const paintStroke = (mask: Float32Array, width: number, height: number, stroke: BrushStroke) => {
+  const { points, hardness, opacity } = stroke;
+  const bounds = strokeBounds(stroke, width, height);
+  if (!bounds || opacity <= 0) return;
+
+  const coverage = new Float32Array(bounds.width * bounds.height);
+
+  const stamp = (cx: number, cy: number, radius: number) => {
+    const inner = radius * hardness;
+    const x0 = Math.max(0, Math.floor(cx - radius));
+    const x1 = Math.min(width - 1, Math.ceil(cx + radius));
+    const y0 = Math.max(0, Math.floor(cy - radius));
+    const y1 = Math.min(height - 1, Math.ceil(cy + radius));
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const d = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+        if (d >= radius) continue;
+        let weight = 1;
+        if (d > inner) {
+          const t = (radius - d) / (radius - inner);
+          weight = t * t * (3 - 2 * t);
+        }
+        const index = (y - bounds.y) * bounds.width + (x - bounds.x);
+        if (weight > coverage[index]) coverage[index] = weight;
+      }
+    }
+  };
+
+  const radiusAt = (pressure: number) => brushRadius(stroke.size, pressure);
+
+  stamp(points[0][0], points[0][1], radiusAt(points[0][2]));
+  for (let i = 1; i < points.length; i++) {
+    const [x0, y0, p0] = points[i - 1];
+    const [x1, y1, p1] = points[i];
+    const length = Math.hypot(x1 - x0, y1 - y0);
+    const spacing = Math.max(0.5, Math.min(radiusAt(p0), radiusAt(p1)) * DAB_SPACING);
+    const steps = Math.max(1, Math.ceil(length / spacing));
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      stamp(x0 + (x1 - x0) * t, y0 + (y1 - y0) * t, radiusAt(p0 + (p1 - p0) * t));
+    }
+  }
+
+  const target = stroke.mode === 'erase' ? -1 : 1;
+  for (let y = 0; y < bounds.height; y++) {
+    for (let x = 0; x < bounds.width; x++) {
+      const weight = coverage[y * bounds.width + x];
+      if (weight > 0) {
+        const index = (bounds.y + y) * width + bounds.x + x;
+        mask[index] += (target - mask[index]) * opacity * weight;
+      }
+    }
+  }
+};
+
+// 把编辑层叠加到自动得到的 alpha 上：负值按比例擦除，正值按比例恢复
+export const applyEditMask = (alpha: Float32Array, mask: Float32Array): Float32Array => {
+  const result = new Float32Array(alpha.length);
+  for (let i = 0; i < alpha.length; i++) {
+    const edit = mask[i];
+    result[i] = edit < 0 ? alpha[i] * (1 + edit) : alpha[i] + (1 - alpha[i]) * edit;
+  }
+  return result;
+};
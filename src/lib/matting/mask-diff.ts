@@ -0,0 +1,73 @@
+// 蒙版差异：只记录发生变化的元素及其前后取值，撤销/重做时原地写回，避免保存整幅蒙版或图片
+import { Rect } from '@/lib/matting/grabcut';
+
+type NumericArray = Float32Array | Uint8ClampedArray | Uint32Array;
+
+// 前后取值与源数组同类型，不额外放大占用
+export interface MaskDiff<T extends NumericArray = NumericArray> {
+  indices: Uint32Array;
+  before: T;
+  after: T;
+}
+
+const allocLike = <T extends NumericArray>(source: T, length: number): T =>
+  new (source.constructor as new (length: number) => T)(length);
+
+// 比较 before[k] 与 after[indexAt(k)]，记录的下标为后者在整幅数组中的位置
+const buildDiff = <T extends NumericArray>(
+  before: T,
+  after: T,
+  length: number,
+  indexAt: (k: number) => number
+): MaskDiff<T> => {
+  let count = 0;
+  for (let k = 0; k < length; k++) {
+    if (before[k] !== after[indexAt(k)]) count++;
+  }
+
+  const diff: MaskDiff<T> = {
+    indices: new Uint32Array(count),
+    before: allocLike(before, count),
+    after: allocLike(after, count)
+  };
+  let n = 0;
+  for (let k = 0; k < length; k++) {
+    const index = indexAt(k);
+    if (before[k] !== after[index]) {
+      diff.indices[n] = index;
+      diff.before[n] = before[k];
+      diff.after[n] = after[index];
+      n++;
+    }
+  }
+  return diff;
+};
+
+export const diffArrays = <T extends NumericArray>(before: T, after: T): MaskDiff<T> =>
+  buildDiff(before, after, after.length, (k) => k);
+
+// 复制整幅数组中的一个矩形区域（按行连续存放），配合 diffRegion 只比较被修改的范围
+export const copyRegion = <T extends NumericArray>(source: T, width: number, region: Rect): T => {
+  const copy = allocLike(source, region.width * region.height);
+  for (let y = 0; y < region.height; y++) {
+    const start = (region.y + y) * width + region.x;
+    copy.set(source.subarray(start, start + region.width), y * region.width);
+  }
+  return copy;
+};
+
+export const diffRegion = <T extends NumericArray>(before: T, after: T, width: number, region: Rect): MaskDiff<T> =>
+  buildDiff(before, after, region.width * region.height, (k) =>
+    (region.y + Math.floor(k / region.width)) * width + region.x + (k % region.width));
+
+// 把 RGBA 像素按 32 位整体看待，颜色差异每个像素只需记录一个下标
+export const pixelView = (data: Uint8ClampedArray) => new Uint32Array(data.buffer, data.byteOffset, data.length >> 2);
+
+export const applyDiff = <T extends NumericArray>(target: T, diff: MaskDiff<T>, side: 'before' | 'after') => {
+  const values = diff[side];
+  for (let k = 0; k < diff.indices.length; k++) {
+    target[diff.indices[k]] = values[k];
+  }
+};
+
+export const diffBytes = (diff: MaskDiff) => diff.indices.byteLength + diff.before.byteLength + diff.after.byteLength;
@@ -0,0 +1,315 @@
+// Boykov–Kolmogorov 最大流/最小割，适用于图像分割中的网格图
+
+const NONE = -1;
+const TERMINAL = -2;
+const ORPHAN = -3;
+const INFINITE_D = 1e9;
+
+export class MaxFlowGraph {
+  private nodeCount: number;
+  private arcCount = 0;
+
+  // 节点
+  private first: Int32Array;
+  private parent: Int32Array;
+  private next: Int32Array;
+  private ts: Int32Array;
+  private dist: Int32Array;
+  private isSink: Uint8Array;
+  // 到终端的剩余容量：正值连向源点，负值连向汇点
+  private trCap: Float64Array;
+
+  // 弧
+  private head: Int32Array;
+  private nextArc: Int32Array;
+  private rCap: Float64Array;
+
+  private queueFirst = NONE;
+  private queueLast = NONE;
+  private orphans: number[] = [];
+  private orphanHead = 0;
+  private time = 0;
+  private flow = 0;
+
+  constructor(nodeCount: number, maxEdges: number) {
+    this.nodeCount = nodeCount;
+    this.first = new Int32Array(nodeCount).fill(NONE);
+    this.parent = new Int32Array(nodeCount);
+    this.next = new Int32Array(nodeCount);
+    this.ts = new Int32Array(nodeCount);
+    this.dist = new Int32Array(nodeCount);
+    this.isSink = new Uint8Array(nodeCount);
+    this.trCap = new Float64Array(nodeCount);
+
+    this.head = new Int32Array(maxEdges * 2);
+    this.nextArc = new Int32Array(maxEdges * 2);
+    this.rCap = new Float64Array(maxEdges * 2);
+  }
+
+  // 成对添加的两条弧下标相邻，互为反向弧：sister(a) = a ^ 1
+  addEdge(i: number, j: number, capacity: number, reverseCapacity: number) {
+    const a = this.arcCount++;
+    const b = this.arcCount++;
+
+    this.head[a] = j;
+    this.nextArc[a] = this.first[i];
+    this.rCap[a] = capacity;
+    this.first[i] = a;
+
+    this.head[b] = i;
+    this.nextArc[b] = this.first[j];
+    this.rCap[b] = reverseCapacity;
+    this.first[j] = b;
+  }
+
+  addTerminalWeights(i: number, sourceCapacity: number, sinkCapacity: number) {
+    const delta = this.trCap[i];
+    if (delta > 0) sourceCapacity += delta;
+    else sinkCapacity -= delta;
+    this.flow += Math.min(sourceCapacity, sinkCapacity);
+    this.trCap[i] = sourceCapacity - sinkCapacity;
+  }
+
+  // 最小割后节点是否属于源点一侧（未被任何搜索树占据的节点默认归源点）
+  inSourceSegment(i: number): boolean {
+    return this.parent[i] === NONE || !this.isSink[i];
+  }
+
+  private setActive(i: number) {
+    if (this.next[i] !== NONE) return;
+    if (this.queueLast !== NONE) this.next[this.queueLast] = i;
+    else this.queueFirst = i;
+    this.queueLast = i;
+    // 队尾节点的 next 指向自身，用来区分“在队列中”与“不在队列中”
+    this.next[i] = i;
+  }
+
+  private nextActive(): number {
+    for (;;) {
+      const i = this.queueFirst;
+      if (i === NONE) return NONE;
+      if (this.next[i] === i) {
+        this.queueFirst = NONE;
+        this.queueLast = NONE;
+      } else {
+        this.queueFirst = this.next[i];
+      }
+      this.next[i] = NONE;
+      if (this.parent[i] !== NONE) return i;
+    }
+  }
+
+  private setOrphan(i: number) {
+    this.parent[i] = ORPHAN;
+    this.orphans.push(i);
+  }
+
+  private augment(middle: number) {
+    const { parent, head, rCap, trCap } = this;
+    let bottleneck = rCap[middle];
+    let i: number;
+    let a: number;
+
+    // 源点树一侧的瓶颈
+    for (i = head[middle ^ 1]; ; i = head[a]) {
+      a = parent[i];
+      if (a === TERMINAL) break;
+      if (bottleneck > rCap[a ^ 1]) bottleneck = rCap[a ^ 1];
+    }
+    if (bottleneck > trCap[i]) bottleneck = trCap[i];
+
+    // 汇点树一侧的瓶颈
+    for (i = head[middle]; ; i = head[a]) {
+      a = parent[i];
+      if (a === TERMINAL) break;
+      if (bottleneck > rCap[a]) bottleneck = rCap[a];
+    }
+    if (bottleneck > -trCap[i]) bottleneck = -trCap[i];
+
+    rCap[middle ^ 1] += bottleneck;
+    rCap[middle] -= bottleneck;
+
+    for (i = head[middle ^ 1]; ; i = head[a]) {
+      a = parent[i];
+      if (a === TERMINAL) break;
+      rCap[a] += bottleneck;
+      rCap[a ^ 1] -= bottleneck;
+      if (!rCap[a ^ 1]) this.setOrphan(i);
+    }
+    trCap[i] -= bottleneck;
+    if (!trCap[i]) this.setOrphan(i);
+
+    for (i = head[middle]; ; i = head[a]) {
+      a = parent[i];
+      if (a === TERMINAL) break;
+      rCap[a ^ 1] += bottleneck;
+      rCap[a] -= bottleneck;
+      if (!rCap[a]) this.setOrphan(i);
+    }
+    trCap[i] += bottleneck;
+    if (!trCap[i]) this.setOrphan(i);
+
+    this.flow += bottleneck;
+  }
+
+  // 为孤立节点在原来的搜索树中寻找新的父节点，找不到则变为自由节点
+  private processOrphan(i: number, sink: boolean) {
+    const { parent, head, rCap, ts, dist, isSink, nextArc } = this;
+    let minArc = NONE;
+    let minDist = INFINITE_D;
+
+    for (let a0 = this.first[i]; a0 !== NONE; a0 = nextArc[a0]) {
+      if (!rCap[sink ? a0 : a0 ^ 1]) continue;
+      let j = head[a0];
+      if (!!isSink[j] !== sink || parent[j] === NONE) continue;
+
+      // 沿父节点回溯，确认 j 仍然连向终端
+      let d = 0;
+      for (;;) {
+        if (ts[j] === this.time) {
+          d += dist[j];
+          break;
+        }
+        const a = parent[j];
+        d++;
+        if (a === TERMINAL) {
+          ts[j] = this.time;
+          dist[j] = 1;
+          break;
+        }
+        if (a === ORPHAN) {
+          d = INFINITE_D;
+          break;
+        }
+        j = head[a];
+      }
+
+      if (d < INFINITE_D) {
+        if (d < minDist) {
+          minArc = a0;
+          minDist = d;
+        }
+        // 记录路径上各节点的距离，加速后续查找
+        for (j = head[a0]; ts[j] !== this.time; j = head[parent[j]]) {
+          ts[j] = this.time;
+          dist[j] = d--;
+        }
+      }
+    }
+
+    parent[i] = minArc;
+    if (minArc !== NONE) {
+      ts[i] = this.time;
+      dist[i] = minDist + 1;
+      return;
+    }
+
+    for (let a0 = this.first[i]; a0 !== NONE; a0 = nextArc[a0]) {
+      const j = head[a0];
+      const a = parent[j];
+      if (!!isSink[j] !== sink || a === NONE) continue;
+      if (rCap[sink ? a0 : a0 ^ 1]) this.setActive(j);
+      if (a !== TERMINAL && a !== ORPHAN && head[a] === i) this.setOrphan(j);
+    }
+  }
+
+  maxflow(): number {
+    const { parent, head, rCap, ts, dist, isSink, nextArc, trCap } = this;
+
+    for (let i = 0; i < this.nodeCount; i++) {
+      this.next[i] = NONE;
+      ts[i] = 0;
+      if (trCap[i] > 0) {
+        isSink[i] = 0;
+        parent[i] = TERMINAL;
+        this.setActive(i);
+        dist[i] = 1;
+      } else if (trCap[i] < 0) {
+        isSink[i] = 1;
+        parent[i] = TERMINAL;
+        this.setActive(i);
+        dist[i] = 1;
+      } else {
+        parent[i] = NONE;
+      }
+    }
+
+    let current = NONE;
+
+    for (;;) {
+      let i = current;
+      if (i !== NONE) {
+        this.next[i] = NONE;
+        if (parent[i] === NONE) i = NONE;
+      }
+      if (i === NONE) {
+        i = this.nextActive();
+        if (i === NONE) break;
+      }
+
+      // 扩展搜索树，直到与另一棵树相遇
+      let found = NONE;
+      if (!isSink[i]) {
+        for (let a = this.first[i]; a !== NONE; a = nextArc[a]) {
+          if (!rCap[a]) continue;
+          const j = head[a];
+          if (parent[j] === NONE) {
+            isSink[j] = 0;
+            parent[j] = a ^ 1;
+            ts[j] = ts[i];
+            dist[j] = dist[i] + 1;
+            this.setActive(j);
+          } else if (isSink[j]) {
+            found = a;
+            break;
+          } else if (ts[j] <= ts[i] && dist[j] > dist[i]) {
+            parent[j] = a ^ 1;
+            ts[j] = ts[i];
+            dist[j] = dist[i] + 1;
+          }
+        }
+      } else {
+        for (let a = this.first[i]; a !== NONE; a = nextArc[a]) {
+          if (!rCap[a ^ 1]) continue;
+          const j = head[a];
+          if (parent[j] === NONE) {
+            isSink[j] = 1;
+            parent[j] = a ^ 1;
+            ts[j] = ts[i];
+            dist[j] = dist[i] + 1;
+            this.setActive(j);
+          } else if (!isSink[j]) {
+            found = a ^ 1;
+            break;
+          } else if (ts[j] <= ts[i] && dist[j] > dist[i]) {
+            parent[j] = a ^ 1;
+            ts[j] = ts[i];
+            dist[j] = dist[i] + 1;
+          }
+        }
+      }
+
+      this.time++;
+
+      if (found === NONE) {
+        current = NONE;
+        continue;
+      }
+
+      this.next[i] = i;
+      current = i;
+
+      this.augment(found);
+
+      // 收养孤立节点
+      while (this.orphanHead < this.orphans.length) {
+        const orphan = this.orphans[this.orphanHead++];
+        this.processOrphan(orphan, !!isSink[orphan]);
+      }
+      this.orphans.length = 0;
+      this.orphanHead = 0;
+    }
+
+    return this.flow;
+  }
+}
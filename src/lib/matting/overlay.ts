@@ -0,0 +1,135 @@
+// 诊断叠加层：把掩码渲染成半透明的 PNG，覆盖在预览图上显示
+import { NO_CLUSTER } from '@/lib/matting/diagnostics';
+
+const toDataUrl = (image: ImageData): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法获取画布上下文');
+
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// 掩码中为 1 的像素用 color（RGBA）着色，其余完全透明
+export const maskToOverlay = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  color: [number, number, number, number]
+): string => {
+  const overlay = new ImageData(width, height);
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    overlay.data[i * 4] = color[0];
+    overlay.data[i * 4 + 1] = color[1];
+    overlay.data[i * 4 + 2] = color[2];
+    overlay.data[i * 4 + 3] = color[3];
+  }
+  return toDataUrl(overlay);
+};
+
+// 红膜（rubylith）：在原图上按 1 - alpha 叠加红色，被去除的区域一目了然
+export const renderRubylith = (original: ImageData, alpha: Float32Array, opacity = 0.5): string => {
+  const output = new ImageData(original.width, original.height);
+  const data = original.data;
+  for (let i = 0; i < alpha.length; i++) {
+    const t = (1 - alpha[i]) * opacity;
+    output.data[i * 4] = data[i * 4] + (255 - data[i * 4]) * t;
+    output.data[i * 4 + 1] = data[i * 4 + 1] * (1 - t);
+    output.data[i * 4 + 2] = data[i * 4 + 2] * (1 - t);
+    output.data[i * 4 + 3] = 255;
+  }
+  return toDataUrl(output);
+};
+
+// 只看 alpha：白色为保留，黑色为去除，灰色为半透明
+export const renderAlphaMatte = (alpha: Float32Array, width: number, height: number): string => {
+  const output = new ImageData(width, height);
+  for (let i = 0; i < alpha.length; i++) {
+    const v = Math.round(alpha[i] * 255);
+    output.data[i * 4] = v;
+    output.data[i * 4 + 1] = v;
+    output.data[i * 4 + 2] = v;
+    output.data[i * 4 + 3] = 255;
+  }
+  return toDataUrl(output);
+};
+
+// 置信度色带：深蓝为确定背景，黄色为容差过渡带，深红为确定前景
+export const HEAT_STOPS: [number, number, number][] = [
+  [30, 64, 175],
+  [147, 197, 253],
+  [253, 224, 71],
+  [252, 165, 165],
+  [153, 27, 27]
+];
+
+// 归属视图中各聚类的区分色，按调色板下标循环取用
+export const CLUSTER_COLORS: [number, number, number][] = [
+  [239, 68, 68],
+  [59, 130, 246],
+  [34, 197, 94],
+  [234, 179, 8],
+  [168, 85, 247],
+  [236, 72, 153],
+  [20, 184, 166],
+  [249, 115, 22]
+];
+
+// t 在 0–1 之间沿色带线性插值
+const heatColor = (t: number): [number, number, number] => {
+  const position = Math.max(0, Math.min(1, t)) * (HEAT_STOPS.length - 1);
+  const index = Math.min(HEAT_STOPS.length - 2, Math.floor(position));
+  const f = position - index;
+  const [a, b] = [HEAT_STOPS[index], HEAT_STOPS[index + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+};
+
+// 置信度热力图：距离低于内侧容差映射到色带前四分之一，容差带内映射到中段，超出外侧容差后
+// 再经过一个外侧容差的距离到达深红；以 opacity 叠加在原图上
+export const renderConfidenceHeatmap = (
+  original: ImageData,
+  distances: Float32Array,
+  tolerance: [number, number],
+  opacity = 0.7
+): string => {
+  const [inner, outer] = tolerance;
+  const output = new ImageData(original.width, original.height);
+  const data = original.data;
+  for (let i = 0; i < distances.length; i++) {
+    const d = distances[i];
+    const t = d <= inner
+      ? 0.25 * (inner > 0 ? d / inner : 1)
+      : d < outer
+        ? 0.25 + 0.5 * (d - inner) / (outer - inner)
+        : 0.75 + 0.25 * Math.min(1, (d - outer) / Math.max(outer, 1));
+    const color = heatColor(t);
+    for (let c = 0; c < 3; c++) {
+      output.data[i * 4 + c] = data[i * 4 + c] * (1 - opacity) + color[c] * opacity;
+    }
+    output.data[i * 4 + 3] = 255;
+  }
+  return toDataUrl(output);
+};
+
+// 聚类归属：被移除的像素按 1 - alpha 染上最近背景聚类的区分色，保留的像素显示为暗灰原图
+export const renderClusterAttribution = (
+  original: ImageData,
+  alpha: Float32Array,
+  labels: Uint8Array
+): string => {
+  const output = new ImageData(original.width, original.height);
+  const data = original.data;
+  for (let i = 0; i < alpha.length; i++) {
+    const grey = 0.4 * (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    const color = labels[i] === NO_CLUSTER ? null : CLUSTER_COLORS[labels[i] % CLUSTER_COLORS.length];
+    const weight = 1 - alpha[i];
+    for (let c = 0; c < 3; c++) {
+      output.data[i * 4 + c] = color ? grey + (color[c] - grey) * weight : grey;
+    }
+    output.data[i * 4 + 3] = 255;
+  }
+  return toDataUrl(output);
+};
@@ -0,0 +1,225 @@
+// 背景色估计：对图像边缘采样做 k-means++ 聚类，自动选择聚类数，并剔除疑似主体的离群聚类
+import { DistanceMetric, METRIC_PROFILES, RGB, getColorDistance } from '@/lib/matting/color';
+import { DEFAULT_SAMPLING, SamplingOptions, sampleBorder } from '@/lib/matting/sampling';
+import { mulberry32 } from '@/lib/matting/random';
+
+export interface PaletteCluster extends RGB {
+  // 该聚类占全部边缘采样的比例（0–1）
+  weight: number;
+  // 出现过该颜色的边的数量（0–4），只来自自定义采样区域时为 0
+  sides: number;
+  // 被判定为接触边缘的主体颜色，不参与背景移除
+  rejected: boolean;
+}
+
+// 背景色的来源：边缘采样聚类、直方图峰值或吸管点选
+export type PaletteSource = 'border' | 'histogram' | 'eyedropper';
+
+// 可编辑的背景色：tolerance 为该颜色单独的外侧容差，null 时跟随全局容差
+export interface PaletteEntry extends PaletteCluster {
+  id: number;
+  tolerance: number | null;
+  source: PaletteSource;
+}
+
+const MAX_CLUSTERS = 6;
+const MAX_ITERATIONS = 12;
+// 占比低于该值的聚类视为离群
+const MIN_CLUSTER_WEIGHT = 0.04;
+// 只出现在一条边上、且占比低于该值的聚类视为接触边缘的主体
+const SINGLE_SIDE_MAX_WEIGHT = 0.2;
+
+interface KMeansResult {
+  centers: RGB[];
+  assignments: Int32Array;
+  // 每个聚类内采样到中心的平均距离
+  spreads: number[];
+}
+
+// k-means++ 初始化，之后按所选颜色距离分配、按 RGB 均值更新中心
+const kMeans = (samples: RGB[], k: number, metric: DistanceMetric): KMeansResult => {
+  const colorDistance = getColorDistance(metric);
+  const random = mulberry32(k * 7919 + samples.length);
+  const centers: RGB[] = [];
+  const nearest = new Float64Array(samples.length).fill(Infinity);
+
+  const first = samples[Math.floor(random() * samples.length)];
+  centers.push({ r: first.r, g: first.g, b: first.b });
+
+  while (centers.length < k) {
+    const last = centers[centers.length - 1];
+    let total = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const s = samples[i];
+      const d = colorDistance(s.r, s.g, s.b, last.r, last.g, last.b);
+      if (d * d < nearest[i]) nearest[i] = d * d;
+      total += nearest[i];
+    }
+    if (total === 0) break;
+
+    // 按距离平方的概率选择下一个中心
+    let target = random() * total;
+    let chosen = samples.length - 1;
+    for (let i = 0; i < samples.length; i++) {
+      target -= nearest[i];
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    const s = samples[chosen];
+    centers.push({ r: s.r, g: s.g, b: s.b });
+  }
+
+  const assignments = new Int32Array(samples.length);
+  const distances = new Float64Array(samples.length);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    for (let i = 0; i < samples.length; i++) {
+      const s = samples[i];
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let c = 0; c < centers.length; c++) {
+        const d = colorDistance(s.r, s.g, s.b, centers[c].r, centers[c].g, centers[c].b);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = c;
+        }
+      }
+      if (assignments[i] !== best) changed = true;
+      assignments[i] = best;
+      distances[i] = bestDistance;
+    }
+
+    const sums = centers.map(() => ({ r: 0, g: 0, b: 0, count: 0 }));
+    for (let i = 0; i < samples.length; i++) {
+      const sum = sums[assignments[i]];
+      sum.r += samples[i].r;
+      sum.g += samples[i].g;
+      sum.b += samples[i].b;
+      sum.count++;
+    }
+    sums.forEach((sum, c) => {
+      if (sum.count === 0) return;
+      centers[c] = {
+        r: Math.round(sum.r / sum.count),
+        g: Math.round(sum.g / sum.count),
+        b: Math.round(sum.b / sum.count)
+      };
+    });
+
+    if (!changed && iteration > 0) break;
+  }
+
+  const spreadSums = centers.map(() => ({ total: 0, count: 0 }));
+  for (let i = 0; i < samples.length; i++) {
+    spreadSums[assignments[i]].total += distances[i];
+    spreadSums[assignments[i]].count++;
+  }
+
+  return {
+    centers,
+    assignments,
+    spreads: spreadSums.map(({ total, count }) => (count ? total / count : 0))
+  };
+};
+
+// 完整的聚类结果（包括被剔除的聚类），按占比从高到低排序
+export const estimateBackgroundPalette = (
+  imageData: ImageData,
+  metric: DistanceMetric,
+  sampling: SamplingOptions = DEFAULT_SAMPLING
+): PaletteCluster[] => {
+  const samples = sampleBorder(imageData, sampling);
+  if (samples.length === 0) return [];
+
+  const colorDistance = getColorDistance(metric);
+  const groupThreshold = METRIC_PROFILES[metric].groupThreshold;
+
+  // 自动选择聚类数：取所有非离群聚类都足够紧凑的最小 k
+  let result = kMeans(samples, 1, metric);
+  for (let k = 2; k <= MAX_CLUSTERS; k++) {
+    const counts = new Array(result.centers.length).fill(0);
+    result.assignments.forEach((c) => counts[c]++);
+    const compact = result.spreads.every((spread, c) =>
+      counts[c] / samples.length < MIN_CLUSTER_WEIGHT || spread <= groupThreshold / 2
+    );
+    if (compact) break;
+    result = kMeans(samples, k, metric);
+  }
+
+  const clusters = result.centers.map((center) => ({ ...center, count: 0, sides: 0 }));
+  result.assignments.forEach((c, i) => {
+    clusters[c].count++;
+    clusters[c].sides |= samples[i].side;
+  });
+
+  // 合并中心过于接近的聚类
+  const merged: typeof clusters = [];
+  for (const cluster of clusters.filter((c) => c.count > 0).sort((a, b) => b.count - a.count)) {
+    const target = merged.find((m) => colorDistance(m.r, m.g, m.b, cluster.r, cluster.g, cluster.b) < groupThreshold);
+    if (target) {
+      target.count += cluster.count;
+      target.sides |= cluster.sides;
+    } else {
+      merged.push({ ...cluster });
+    }
+  }
+
+  // 只采样一条边时无法据此判断主体
+  const singleSideCheck = sampling.sides.length > 1;
+  const palette = merged.map(({ r, g, b, count, sides }) => {
+    const weight = count / samples.length;
+    const sideCount = [1, 2, 4, 8].filter((bit) => sides & bit).length;
+    return {
+      r,
+      g,
+      b,
+      weight,
+      sides: sideCount,
+      rejected: weight < MIN_CLUSTER_WEIGHT
+        || (singleSideCheck && sideCount === 1 && weight < SINGLE_SIDE_MAX_WEIGHT)
+    };
+  });
+
+  // 至少保留占比最高的聚类作为背景色
+  if (palette.every((cluster) => cluster.rejected)) palette[0].rejected = false;
+
+  return palette;
+};
+
+// 参与背景移除的背景色
+export const getBackgroundColors = (
+  imageData: ImageData,
+  metric: DistanceMetric,
+  sampling: SamplingOptions = DEFAULT_SAMPLING
+): PaletteCluster[] => {
+  return estimateBackgroundPalette(imageData, metric, sampling).filter((cluster) => !cluster.rejected);
+};
+
+export const toPaletteEntries = (clusters: PaletteCluster[], source: PaletteSource): PaletteEntry[] =>
+  clusters.map((cluster, index) => ({ ...cluster, id: index + 1, tolerance: null, source }));
+
+// 单独设置了容差的颜色按 全局外侧容差 / 自身容差 缩放距离，使内外侧容差按同一比例随之调整
+export const toleranceScales = (entries: PaletteEntry[], outerTolerance: number): number[] =>
+  entries.map((entry) => (entry.tolerance ? outerTolerance / entry.tolerance : 1));
+
+// 吸管取色：取点击位置周围 (2r+1)² 邻域的平均色，减少噪点影响
+export const sampleColor = (imageData: ImageData, x: number, y: number, radius = 1): RGB => {
+  const { width, height, data } = imageData;
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let count = 0;
+  for (let sy = Math.max(0, y - radius); sy <= Math.min(height - 1, y + radius); sy++) {
+    for (let sx = Math.max(0, x - radius); sx <= Math.min(width - 1, x + radius); sx++) {
+      const index = (sy * width + sx) * 4;
+      r += data[index];
+      g += data[index + 1];
+      b += data[index + 2];
+      count++;
+    }
+  }
+  return { r: Math.round(r / count), g: Math.round(g / count), b: Math.round(b / count) };
+};
@@ -0,0 +1,53 @@
+// 多边形光栅化：按原图分辨率计算每个像素被闭合路径覆盖的比例（非零环绕规则）
+export type Point = [number, number];
+
+// 每个像素行内的子扫描线数量，用于边缘抗锯齿
+const SUBSAMPLES = 4;
+
+export const rasterizePolygon = (points: Point[], width: number, height: number): Float32Array => {
+  const coverage = new Float32Array(width * height);
+  if (points.length < 3) return coverage;
+
+  let minY = Infinity, maxY = -Infinity;
+  for (const [, y] of points) {
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  const rowStart = Math.max(0, Math.floor(minY));
+  const rowEnd = Math.min(height - 1, Math.ceil(maxY));
+
+  const crossings: { x: number; winding: number }[] = [];
+  for (let row = rowStart; row <= rowEnd; row++) {
+    for (let s = 0; s < SUBSAMPLES; s++) {
+      const sy = row + (s + 0.5) / SUBSAMPLES;
+
+      crossings.length = 0;
+      for (let i = 0; i < points.length; i++) {
+        const [x0, y0] = points[i];
+        const [x1, y1] = points[(i + 1) % points.length];
+        if ((y0 <= sy && y1 > sy) || (y1 <= sy && y0 > sy)) {
+          crossings.push({ x: x0 + (sy - y0) / (y1 - y0) * (x1 - x0), winding: y1 > y0 ? 1 : -1 });
+        }
+      }
+      crossings.sort((a, b) => a.x - b.x);
+
+      // 环绕数非零的区间内为多边形内部，按区间与像素的重叠长度累加覆盖率
+      let winding = 0;
+      for (let i = 0; i < crossings.length - 1; i++) {
+        winding += crossings[i].winding;
+        if (winding === 0) continue;
+        const start = Math.max(0, crossings[i].x);
+        const end = Math.min(width, crossings[i + 1].x);
+        for (let x = Math.floor(start); x < end; x++) {
+          const overlap = Math.min(end, x + 1) - Math.max(start, x);
+          if (overlap > 0) coverage[row * width + x] += overlap / SUBSAMPLES;
+        }
+      }
+    }
+  }
+
+  for (let i = 0; i < coverage.length; i++) {
+    if (coverage[i] > 1) coverage[i] = 1;
+  }
+  return coverage;
+};
@@ -0,0 +1,33 @@
+// 保护色：与任一保护色足够接近的像素始终视为前景，优先于背景匹配
+import { ColorDistanceFn, RGB } from '@/lib/matting/color';
+
+// 用吸管从原图选取的保护色，tolerance 为该颜色自己的距离容差
+export interface ProtectedColor extends RGB {
+  id: number;
+  tolerance: number;
+}
+
+// 被保护的像素为 1
+export const computeProtectionMask = (
+  imageData: ImageData,
+  colors: ProtectedColor[],
+  colorDistance: ColorDistanceFn
+): Uint8Array => {
+  const data = imageData.data;
+  const total = imageData.width * imageData.height;
+  const mask = new Uint8Array(total);
+
+  for (let i = 0; i < total; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    for (const color of colors) {
+      if (colorDistance(r, g, b, color.r, color.g, color.b) <= color.tolerance) {
+        mask[i] = 1;
+        break;
+      }
+    }
+  }
+
+  return mask;
+};
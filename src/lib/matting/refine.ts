@@ -0,0 +1,120 @@
+// 蒙版细化：基于欧氏距离变换的收缩/扩展（choke/spread）与羽化
+
+const INF = 1e20;
+
+// 一维平方距离变换（Felzenszwalb & Huttenlocher）
+const distanceTransform1D = (
+  f: Float32Array,
+  n: number,
+  d: Float32Array,
+  v: Int32Array,
+  z: Float32Array
+) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+};
+
+// 每个像素到最近特征像素（feature 为 1）的欧氏距离
+export const distanceTransform = (feature: Uint8Array, width: number, height: number): Float32Array => {
+  const size = Math.max(width, height);
+  const f = new Float32Array(size);
+  const d = new Float32Array(size);
+  const v = new Int32Array(size);
+  const z = new Float32Array(size + 1);
+  const grid = new Float32Array(width * height);
+
+  for (let i = 0; i < grid.length; i++) {
+    grid[i] = feature[i] ? 0 : INF;
+  }
+
+  // 先按列再按行做两次一维变换
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    distanceTransform1D(f, height, d, v, z);
+    for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = grid[y * width + x];
+    distanceTransform1D(f, width, d, v, z);
+    for (let x = 0; x < width; x++) grid[y * width + x] = Math.sqrt(d[x]);
+  }
+
+  return grid;
+};
+
+// 以 alpha >= 0.5 为前景，计算到蒙版边界的有符号距离（前景内为正，背景中为负）
+export const signedDistance = (alpha: Float32Array, width: number, height: number): Float32Array => {
+  const inside = new Uint8Array(alpha.length);
+  const outside = new Uint8Array(alpha.length);
+  for (let i = 0; i < alpha.length; i++) {
+    if (alpha[i] >= 0.5) inside[i] = 1;
+    else outside[i] = 1;
+  }
+
+  const toInside = distanceTransform(inside, width, height);
+  const toOutside = distanceTransform(outside, width, height);
+  const result = new Float32Array(alpha.length);
+
+  // 边界位于前景与背景像素之间，两侧各偏移半个像素
+  for (let i = 0; i < alpha.length; i++) {
+    result[i] = inside[i] ? toOutside[i] - 0.5 : 0.5 - toInside[i];
+  }
+
+  return result;
+};
+
+const smoothstep = (t: number): number => {
+  const x = Math.min(1, Math.max(0, t));
+  return x * x * (3 - 2 * x);
+};
+
+export interface RefineOptions {
+  // 有符号偏移（像素）：负值收缩蒙版，正值扩展蒙版，支持小数
+  chokeSpread: number;
+  // 羽化宽度（像素），以蒙版边界为中心
+  feathering: number;
+}
+
+// 原地修改 alpha（0–1）
+export const refineMatte = (alpha: Float32Array, width: number, height: number, options: RefineOptions) => {
+  const { chokeSpread, feathering } = options;
+
+  if (chokeSpread !== 0) {
+    const distances = signedDistance(alpha, width, height);
+    for (let i = 0; i < alpha.length; i++) {
+      // 按偏移后的边界重新计算覆盖率，一像素宽的过渡保证亚像素精度
+      const coverage = Math.min(1, Math.max(0, distances[i] + chokeSpread + 0.5));
+      alpha[i] = chokeSpread > 0 ? Math.max(alpha[i], coverage) : Math.min(alpha[i], coverage);
+    }
+  }
+
+  if (feathering > 0) {
+    const distances = signedDistance(alpha, width, height);
+    for (let i = 0; i < alpha.length; i++) {
+      const ramp = smoothstep(distances[i] / feathering + 0.5);
+      // 前景侧只会变得更透明，背景侧只会变得更不透明，保留抠像得到的软边
+      alpha[i] = distances[i] >= 0 ? Math.min(alpha[i], ramp) : Math.max(alpha[i], ramp);
+    }
+  }
+};
@@ -0,0 +1,100 @@
+// 背景采样：读取图像边缘或自定义区域的像素，供背景色估计与渐变背景拟合使用
+import { RGB } from '@/lib/matting/color';
+import { Rect } from '@/lib/matting/grabcut';
+
+export interface BorderSample extends RGB {
+  x: number;
+  y: number;
+  // 所在的边：上 1、下 2、左 4、右 8（角点同时属于两条边）；自定义区域内的采样为 0
+  side: number;
+}
+
+export type BorderSide = 'top' | 'bottom' | 'left' | 'right';
+
+export const SIDE_BITS: Record<BorderSide, number> = { top: 1, bottom: 2, left: 4, right: 8 };
+
+export interface SamplingOptions {
+  sides: BorderSide[];
+  // 从边缘向内采样的深度（像素）
+  bandWidth: number;
+  // 采样间隔（像素），沿边与向内方向相同
+  stride: number;
+  // 额外的自定义采样矩形，原图像素坐标
+  regions: Rect[];
+}
+
+export const DEFAULT_SAMPLING: SamplingOptions = {
+  sides: ['top', 'bottom', 'left', 'right'],
+  bandWidth: 1,
+  stride: 2,
+  regions: []
+};
+
+// 采样总数的上限：采样带很宽或自定义区域很大时自动加大间隔，避免后续聚类卡住界面
+const MAX_SAMPLES = 20000;
+
+export const sampleBorder = (imageData: ImageData, options: SamplingOptions = DEFAULT_SAMPLING): BorderSample[] => {
+  const { data, width, height } = imageData;
+  const band = Math.max(1, Math.min(Math.round(options.bandWidth), Math.floor(Math.min(width, height) / 2)));
+  const mask = options.sides.reduce((bits, side) => bits | SIDE_BITS[side], 0);
+  const regions = options.regions.map((region) => {
+    const x0 = Math.max(0, Math.floor(region.x));
+    const y0 = Math.max(0, Math.floor(region.y));
+    const x1 = Math.min(width, Math.ceil(region.x + region.width));
+    const y1 = Math.min(height, Math.ceil(region.y + region.height));
+    return { x0, y0, x1, y1 };
+  });
+
+  // 按待采样的总面积估算间隔，使采样数不超过上限
+  const area = band * (((mask & 1) ? width : 0) + ((mask & 2) ? width : 0) + ((mask & 4) ? height : 0) + ((mask & 8) ? height : 0))
+    + regions.reduce((sum, { x0, y0, x1, y1 }) => sum + Math.max(0, x1 - x0) * Math.max(0, y1 - y0), 0);
+  const stride = Math.max(1, Math.round(options.stride), Math.ceil(Math.sqrt(area / MAX_SAMPLES)));
+  const samples: BorderSample[] = [];
+  const push = (x: number, y: number, side: number) => {
+    const index = (y * width + x) * 4;
+    samples.push({ r: data[index], g: data[index + 1], b: data[index + 2], x, y, side });
+  };
+
+  for (let depth = 0; depth < band; depth += stride) {
+    for (let x = 0; x < width; x += stride) {
+      if (mask & 1) push(x, depth, 1);
+      if (mask & 2) push(x, height - 1 - depth, 2);
+    }
+    for (let y = 0; y < height; y += stride) {
+      if (mask & 4) push(depth, y, 4);
+      if (mask & 8) push(width - 1 - depth, y, 8);
+    }
+  }
+
+  for (const { x0, y0, x1, y1 } of regions) {
+    for (let y = y0; y < y1; y += stride) {
+      for (let x = x0; x < x1; x += stride) push(x, y, 0);
+    }
+  }
+
+  return samples;
+};
+
+// 主体接触采样边的检测：边缘一行（列）中不透明像素的比例超过 minFraction 的采样边
+export const touchingSides = (
+  alpha: Float32Array,
+  width: number,
+  height: number,
+  sides: BorderSide[],
+  minFraction = 0.02
+): BorderSide[] => {
+  const opaqueFraction = (side: BorderSide) => {
+    const horizontal = side === 'top' || side === 'bottom';
+    const length = horizontal ? width : height;
+    let opaque = 0;
+    for (let t = 0; t < length; t++) {
+      const index = side === 'top' ? t
+        : side === 'bottom' ? (height - 1) * width + t
+          : side === 'left' ? t * width
+            : t * width + width - 1;
+      if (alpha[index] > 0.5) opaque++;
+    }
+    return opaque / length;
+  };
+  return sides.filter((side) => opaqueFraction(side) > minFraction);
+};
@@ -0,0 +1,25 @@
+// 预览视口的缩放与平移状态：zoom 为屏幕像素/原图像素（0 表示适应窗口），center 为视口中心对应的原图坐标；
+// 原图与处理结果两个视口共用同一份以保持同步
+export interface ViewState {
+  zoom: number;
+  centerX: number;
+  centerY: number;
+}
+
+export const FIT_VIEW: ViewState = { zoom: 0, centerX: 0, centerY: 0 };
+
+// 最大 3200%
+export const MAX_ZOOM = 32;
+
+// 按视口尺寸把视图状态换算为实际缩放，并把中心限制在图片范围内
+export const resolveView = (view: ViewState, imageWidth: number, imageHeight: number, boxWidth: number, boxHeight: number) => {
+  const fit = boxWidth > 0 && boxHeight > 0 ? Math.min(boxWidth / imageWidth, boxHeight / imageHeight) : 1;
+  const zoom = Math.min(Math.max(fit, MAX_ZOOM), Math.max(fit, view.zoom || fit));
+  const isFit = zoom <= fit;
+  return {
+    fit,
+    zoom,
+    centerX: isFit ? imageWidth / 2 : Math.min(imageWidth, Math.max(0, view.centerX)),
+    centerY: isFit ? imageHeight / 2 : Math.min(imageHeight, Math.max(0, view.centerY))
+  };
+};